@@ -0,0 +1,62 @@
+import { getQueuePosition } from './generationQueue';
+import type { QueueSnapshot } from './generationQueue';
+import type { Node, NodeId } from './scene';
+import { panelStyle, smallButtonStyle } from './styles';
+
+type Props = {
+  queue: QueueSnapshot;
+  nodes: Record<NodeId, Node>;
+  onShowNode: (nodeId: NodeId) => void;
+  onCancel: (nodeId: NodeId) => void;
+  onClose: () => void;
+};
+
+const excerpt = (node: Node | undefined) => {
+  const line = node?.text.trim().split('\n')[0] ?? '';
+  return line.length > 48 ? `${line.slice(0, 48)}…` : line;
+};
+
+export default function ActivityPanel({ queue, nodes, onShowNode, onCancel, onClose }: Props) {
+  const entries = [
+    ...queue.running.map(job => ({ job, running: true, label: 'Streaming' })),
+    ...queue.waiting.map(job => ({ job, running: false, label: `Queued #${getQueuePosition(queue, job.nodeId)}` })),
+  ];
+
+  return (
+    <div style={panelStyle} onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <strong style={{ flex: 1 }}>Activity</strong>
+        <button onClick={onClose} style={smallButtonStyle}>Close</button>
+      </div>
+      {entries.length === 0 && <div style={{ color: '#64748B' }}>No generations running.</div>}
+      {entries.map(({ job, running, label }) => {
+        const node = nodes[job.nodeId];
+        return (
+          <div
+            key={job.nodeId}
+            onClick={() => onShowNode(job.nodeId)}
+            style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '4px 0', borderTop: '1px solid #F1F5F9', cursor: 'pointer' }}
+          >
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontSize: 12, color: '#64748B' }}>
+                {label}{node?.provider ? ` · ${node.provider.name}` : ''}
+              </div>
+              <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {excerpt(node) || 'Waiting for text…'}
+              </div>
+            </div>
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                onCancel(job.nodeId);
+              }}
+              style={smallButtonStyle}
+            >
+              {running ? 'Stop' : 'Cancel'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { Attachment } from './scene';
+
+type Props = {
+  attachments: Attachment[];
+  onRemove?: (attachmentId: string) => void; // left out where nothing can be clicked, such as image export
+};
+
+export default function AttachmentThumbnails({ attachments, onRemove }: Props) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 6 }}>
+      {attachments.map(attachment => (
+        <div key={attachment.id} style={{ position: 'relative' }}>
+          <img
+            src={attachment.dataUrl}
+            alt={attachment.name}
+            title={attachment.name}
+            draggable={false}
+            style={{ display: 'block', height: 64, maxWidth: 120, objectFit: 'cover', borderRadius: 4, border: '1px solid #E5E7EB' }}
+          />
+          {onRemove && (
+            <button
+              title="Remove image"
+              onMouseDown={e => e.stopPropagation()}
+              onClick={e => {
+                e.stopPropagation();
+                onRemove(attachment.id);
+              }}
+              style={{
+                position: 'absolute', top: -6, right: -6, width: 16, height: 16, padding: 0, border: 'none', borderRadius: 8,
+                background: '#111827', color: 'white', font: '10px/16px system-ui, sans-serif', cursor: 'pointer',
+              }}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { formatShortcut, fuzzyScore, getActionLabel, getTargetIds, isActionAvailable, listActions } from './actions';
+import type { ActionContext, GraphAction } from './actions';
+import { fieldInputStyle, menuItemStyle } from './styles';
+
+type Props = {
+  context: ActionContext;
+  onRun: (action: GraphAction) => void;
+  onClose: () => void;
+};
+
+// Every registered action, searchable by name. Ones that don't apply right now
+// are listed greyed out so their shortcuts can still be looked up.
+export default function CommandPalette({ context, onRun, onClose }: Props) {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const entries = listActions()
+    .map(action => {
+      const label = getActionLabel(action, context);
+      return { action, label, available: isActionAvailable(action, context), score: query.trim() === '' ? 0 : fuzzyScore(query, label) };
+    })
+    .filter(entry => entry.score !== null)
+    .sort((a, b) => Number(b.available) - Number(a.available) || b.score! - a.score!);
+  const runnable = entries.filter(entry => entry.available);
+  const targetCount = getTargetIds(context).length;
+
+  useEffect(() => {
+    listRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [active, query]);
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (runnable.length > 0) setActive(i => (i + (e.key === 'ArrowDown' ? 1 : runnable.length - 1)) % runnable.length);
+    } else if (e.key === 'Enter' && runnable[active]) {
+      e.preventDefault();
+      onRun(runnable[active].action);
+    }
+  };
+
+  const appliesTo = (action: GraphAction) => {
+    if (action.scope === 'graph') return '';
+    if (action.scope === 'selection' && targetCount > 1) return `${targetCount} selected`;
+    return 'selected node';
+  };
+
+  return (
+    <div
+      onKeyDown={onKeyDown}
+      onMouseDown={e => e.stopPropagation()}
+      onWheel={e => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        left: '50%',
+        top: 80,
+        transform: 'translateX(-50%)',
+        zIndex: 6,
+        width: 440,
+        background: 'white',
+        border: '1px solid #A0A0A0',
+        borderRadius: 4,
+        font: '14px system-ui, sans-serif',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.08)',
+      }}
+    >
+      <div style={{ padding: 8 }}>
+        <input
+          autoFocus
+          style={fieldInputStyle}
+          value={query}
+          placeholder="Type a command…"
+          onChange={e => {
+            setQuery(e.target.value);
+            setActive(0);
+          }}
+          onBlur={onClose}
+        />
+      </div>
+      <div ref={listRef} style={{ maxHeight: 360, overflowY: 'auto', paddingBottom: 4 }}>
+        {entries.length === 0 && <div style={{ padding: '4px 20px', color: '#9CA3AF' }}>No matching commands</div>}
+        {entries.map(({ action, label, available }) => {
+          const isActive = available && runnable[active]?.action === action;
+          return (
+            <button
+              key={action.id}
+              data-active={isActive}
+              disabled={!available}
+              // Keeps focus in the input so its blur doesn't close the palette first.
+              onMouseDown={e => e.preventDefault()}
+              onMouseEnter={() => available && setActive(runnable.findIndex(entry => entry.action === action))}
+              onClick={() => onRun(action)}
+              style={{
+                ...menuItemStyle,
+                display: 'flex',
+                gap: 8,
+                background: isActive ? '#f0f0f0' : 'none',
+                color: available ? 'black' : '#9CA3AF',
+                cursor: available ? 'pointer' : 'default',
+              }}
+            >
+              <span style={{ flex: 1 }}>{label}</span>
+              {available && appliesTo(action) && <span style={{ color: '#2563EB', fontSize: 12 }}>{appliesTo(action)}</span>}
+              {action.shortcuts && <span style={{ color: '#9CA3AF', fontSize: 12 }}>{formatShortcut(action.shortcuts[0])}</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import NodeMarkdown from './NodeMarkdown';
+import { formatDuration } from './completionClient';
+import { estimateTokens } from './contextBudget';
+import type { Node, NodeId } from './scene';
+import type { Provider } from './providers';
+import { fieldLabelStyle, panelStyle, smallButtonStyle } from './styles';
+
+type Props = {
+  source: Node;
+  nodes: Record<NodeId, Node>;
+  providers: Provider[];
+  streamingIds: NodeId[];
+  onRun: (providerIds: string[]) => void;
+  onSelectNode: (nodeId: NodeId) => void;
+  onClose: () => void;
+};
+
+export default function ComparePanel({ source, nodes, providers, streamingIds, onRun, onSelectNode, onClose }: Props) {
+  const [checkedIds, setCheckedIds] = useState(() => providers.map(p => p.id));
+  const compared = Object.values(nodes).filter(n => n.parentId === source.id && n.comparisonId);
+  const latestId = compared.at(-1)?.comparisonId;
+  const columns = compared.filter(n => n.comparisonId === latestId);
+
+  const toggle = (id: string) =>
+    setCheckedIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+
+  return (
+    <div
+      style={{ ...panelStyle, width: 'auto', minWidth: panelStyle.width, maxWidth: 'calc(100vw - 24px)' }}
+      onMouseDown={e => e.stopPropagation()}
+      onWheel={e => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <strong style={{ flex: 1 }}>Compare Models</strong>
+        <button onClick={onClose} style={smallButtonStyle}>Close</button>
+      </div>
+      <div style={fieldLabelStyle}>Send this prompt to</div>
+      {providers.map(p => (
+        <label key={p.id} style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+          <input type="checkbox" checked={checkedIds.includes(p.id)} onChange={() => toggle(p.id)} />
+          {p.name}{p.model ? ` · ${p.model}` : ''}
+        </label>
+      ))}
+      <button
+        onClick={() => onRun(checkedIds)}
+        disabled={checkedIds.filter(id => providers.some(p => p.id === id)).length < 2}
+        style={{ ...smallButtonStyle, margin: '4px 0 8px' }}
+      >
+        Run comparison
+      </button>
+      {columns.length > 0 && (
+        <div style={{ display: 'flex', gap: 8, overflowX: 'auto' }}>
+          {columns.map(node => {
+            const streaming = streamingIds.includes(node.id);
+            return (
+              <div key={node.id} style={{ flex: '0 0 280px', border: '1px solid #E5E7EB', borderRadius: 4, padding: 8 }}>
+                <button onClick={() => onSelectNode(node.id)} style={{ ...smallButtonStyle, padding: 0, color: '#0F172A', fontWeight: 600 }}>
+                  {node.provider ? `${node.provider.name}${node.provider.model ? ` · ${node.provider.model}` : ''}` : 'Unknown model'}
+                </button>
+                <div style={{ color: '#64748B', fontSize: 12, margin: '2px 0 6px' }}>
+                  {streaming ? 'Streaming…' : node.status?.state === 'error' ? 'Failed' : node.status?.state === 'halted' ? 'Halted' : node.durationMs !== undefined ? formatDuration(node.durationMs) : 'No timing'}
+                  {node.stats?.tokensPerSecond !== undefined && ` · ${node.stats.tokensPerSecond.toFixed(1)} tok/s`}
+                  {` · ${node.text.length} chars · ~${estimateTokens(node.text)} tokens`}
+                </div>
+                <div style={{ maxHeight: '50vh', overflowY: 'auto', whiteSpace: 'pre-wrap', overflowWrap: 'break-word' }}>
+                  <NodeMarkdown text={node.text} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,34 +1,49 @@
 import React, { useEffect, useState, useRef } from 'react';
-import ReactMarkdown from 'react-markdown';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-
-const UserIcon = () => (
-  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ display: 'block' }}>
-    <path d="M8 8C9.65685 8 11 6.65685 11 5C11 3.34315 9.65685 2 8 2C6.34315 2 5 3.34315 5 5C5 6.65685 6.34315 8 8 8Z" stroke="#64748B" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-    <path d="M13 14C13 11.2386 10.7614 9 8 9C5.23858 9 3 11.2386 3 14" stroke="#64748B" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-  </svg>
-);
-
-const BotIcon = () => (
-  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ display: 'block' }}>
-    <rect x="2.75" y="4.75" width="10.5" height="6.5" rx="1.25" stroke="#64748B" strokeWidth="1.5"/>
-    <circle cx="6.5" cy="8" r="0.5" fill="#64748B"/>
-    <circle cx="9.5" cy="8" r="0.5" fill="#64748B"/>
-  </svg>
-);
-
-const PlayIcon = () => (
-    <svg width="12" height="12" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-        <path d="M4.66669 2.66663L11.3334 7.99996L4.66669 13.3333V2.66663Z" fill="#64748B"/>
-    </svg>
-);
-
-const HaltIcon = () => (
-    <svg width="12" height="12" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-        <rect x="4" y="4" width="8" height="8" fill="#64748B"/>
-    </svg>
-);
+import { createInitialScene, getConversationHistory, getParentIds, getPreferredLeaf, hasPrompt, isEditable, toPersistedScene, uid, upgradeLegacyScene, wouldCreateCycle } from './scene';
+import type { ChatMessage, Edge, Node, NodeId, Scene, ToolCall, Viewport } from './scene';
+import { deleteWorkspace, getLastWorkspaceId, listWorkspaces, loadWorkspace, saveWorkspace, setLastWorkspaceId } from './storage';
+import type { Workspace, WorkspaceId, WorkspaceMeta, WorkspaceSettings } from './storage';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import NodeMarkdown from './NodeMarkdown';
+import { arrangeNodes, COLUMN_GAP, estimateNodeSize, getChildren, getEdgePoints, MAX_NODE_WIDTH, ROW_GAP } from './layout';
+import type { ArrangeMode } from './layout';
+import ToolbarMenu from './ToolbarMenu';
+import { getSceneRegion, getViewportRegion, renderSceneToSvg, renderSvgToPng } from './renderImage';
+import { DEFAULT_MAX_CONCURRENT, getActiveProvider, toProviderRef, useProviderSettings } from './providers';
+import type { Provider } from './providers';
+import { generationQueue, getQueuePosition } from './generationQueue';
+import { CompletionError, streamChatCompletion, withRetry } from './completionClient';
+import { estimateHistoryTokens, estimateTokens, fitHistory, getPromptBudget } from './contextBudget';
+import ProviderSettingsPanel from './ProviderSettingsPanel';
+import SystemPromptPanel from './SystemPromptPanel';
+import ToolsPanel from './ToolsPanel';
+import PromptTemplatesPanel from './PromptTemplatesPanel';
+import SelectionActions from './SelectionActions';
+import { fillTemplate, usePromptTemplates } from './promptTemplates';
+import { createUndoHistory, isGenerating, recordChange, redoChange, undoChange } from './undoHistory';
+import { formatToolCall, runToolCall, toToolSpecs } from './tools';
+import type { WorkspaceNote } from './tools';
+import ComparePanel from './ComparePanel';
+import NodeInspector from './NodeInspector';
+import NodeHoverCard from './NodeHoverCard';
+import NodeStatus from './NodeStatus';
+import AttachmentThumbnails from './AttachmentThumbnails';
+import ActivityPanel from './ActivityPanel';
+import { resolveSamplingOverrides } from './sampling';
+import type { SamplingParams } from './sampling';
+import { HaltIcon, NodeIcon, PlayIcon } from './icons';
+import { parseSceneFile, serializeScene } from './sceneFile';
+import { downloadFile, getImageFiles, pickFile, readImageAttachments, toFileName } from './files';
+import { highlightOnHover, menuItemStyle, nodeBackground, smallButtonStyle, toolbarButtonStyle } from './styles';
+import { branchToTranscript, treeToMarkdown } from './transcript';
+import type { TranscriptFormat } from './transcript';
+import { mergeChatLogs, parseChatLogs } from './chatImport';
+import { findShortcutAction, formatShortcut, getActionLabel, isActionAvailable, listActions } from './actions';
+import type { ActionContext, GraphCommands } from './actions';
+import CommandPalette from './CommandPalette';
+import { copyNodes, getSubtreeIds, NODES_MIME_TYPE, pasteNodes } from './clipboard';
+import { getNearestNode, getNeighbor } from './navigation';
+import type { Direction } from './navigation';
 
 const loadingIndicatorStyle: React.CSSProperties = {
   display: 'inline-block',
@@ -42,73 +57,302 @@ const loadingIndicatorStyle: React.CSSProperties = {
 
 const LoadingIndicator = () => <div style={loadingIndicatorStyle} />;
 
-export type NodeId = string;
-
-type Node = {
-  id: NodeId;
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  text: string;
-  author: 'user' | 'llm';
-  parentId?: NodeId;
-};
-
-type Edge = { from: NodeId; to: NodeId; fromPoint?: { x: number; y: number } };
-
-type Scene = {
-  nodes: Record<NodeId, Node>;
-  edges: Edge[];
-};
-
-const uid = () => Math.random().toString(36).slice(2, 9);
-const LOADING_PLACEHOLDER = '___LOADING___';
-
-const getConversationHistory = (leafNodeId: NodeId, nodes: Record<NodeId, Node>): { role: 'user' | 'assistant', content: string }[] => {
-  const history: { role: 'user' | 'assistant', content: string }[] = [];
-  let currentNodeId: NodeId | undefined = leafNodeId;
-
-  while (currentNodeId) {
-    const currentNode = nodes[currentNodeId];
-    if (currentNode) {
-      history.push({
-        role: currentNode.author === 'user' ? 'user' : 'assistant',
-        content: currentNode.text,
-      });
-      currentNodeId = currentNode.parentId;
-    }
-    else {
-      currentNodeId = undefined;
-    }
-  }
-
-  return history.reverse();
+type ToolLoopOptions = {
+  toolRound?: number; // rounds of tool calls already made on the way to this response
+  offerTools?: boolean;
 };
 
+const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, scale: 1 };
+const DEFAULT_VARIANT_COUNT = 3;
+const CHECKPOINT_REQUEST = 'Summarize our conversation so far so that it can replace the full history as context for continuing it. Keep every decision, fact, constraint, open question and piece of code that later messages may depend on. Reply with the summary only.';
+const MAX_VARIANT_COUNT = 8;
+const MAX_TOOL_ROUNDS = 5; // after this many rounds of tool calls in a row the model must answer
+const SAVE_DELAY_MS = 500;
+const REVEAL_MARGIN = 48; // space kept between a node reached by keyboard and the edge of the view
 
 export default function ConversationGraph() {
-  const [scene, setScene] = useState<Scene>(() => {
-    const rootId = uid();
-    const nodes: Record<NodeId, Node> = {
-      [rootId]: { id: rootId, x: 100, y: 100, w: 240, h: 60, text: '', author: 'user' },
-    };
-    const edges: Edge[] = [];
-    return { nodes, edges };
-  });
+  const [scene, setScene] = useState<Scene>(createInitialScene);
 
-  const [vp, setVp] = useState({ x: 0, y: 0, scale: 1 });
+  const [vp, setVp] = useState<Viewport>(DEFAULT_VIEWPORT);
   const [panning, setPanning] = useState<{ active: boolean; sx: number; sy: number; ox: number; oy: number } | null>(null);
-  const [dragging, setDragging] = useState<{ id: NodeId; dx: number; dy: number } | null>(null);
-  const [selectedId, setSelectedId] = useState<NodeId | null>(null);
+  // Positions are where the dragged nodes started, in world coordinates.
+  const [dragging, setDragging] = useState<{ start: { x: number; y: number }; origins: Record<NodeId, { x: number; y: number }>; undoKey: string } | null>(null);
+  const [marquee, setMarquee] = useState<{ sx: number; sy: number; x: number; y: number } | null>(null); // screen coordinates
+  const [selectedIds, setSelectedIds] = useState<NodeId[]>([]);
+  // Editing, the inspector and keyboard generation act on a lone selection.
+  const selectedId = selectedIds.length === 1 ? selectedIds[0] : null;
+  const setSelectedId = (id: NodeId | null) => setSelectedIds(id ? [id] : []);
   const [hoverId, setHoverId] = useState<NodeId | null>(null);
   const [editing, setEditing] = useState<NodeId | null>(null);
   const editingValueRef = useRef<string>('');
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; nodeId: NodeId | null } | null>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
   const contentEditableRef = useRef<HTMLDivElement | null>(null);
   const contextMenuRef = useRef<HTMLDivElement | null>(null);
   const nodeRefs = useRef<Record<NodeId, HTMLDivElement | null>>({});
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const pointerRef = useRef<{ x: number; y: number } | null>(null); // last mouse position, where pasted nodes go
   const [abortControllers, setAbortControllers] = useState<Record<NodeId, AbortController>>({});
+  const [workspaces, setWorkspaces] = useState<WorkspaceMeta[]>([]);
+  const [panel, setPanel] = useState<'providers' | 'inspector' | 'system' | 'tools' | 'templates' | 'compare' | 'activity' | null>(null);
+  // Quick actions for text selected in a response; `x`/`y` are screen coordinates.
+  const [selectionActions, setSelectionActions] = useState<{ nodeId: NodeId; text: string; fromPoint: { x: number; y: number }; x: number; y: number } | null>(null);
+  const promptTemplates = usePromptTemplates();
+  const queue = generationQueue.use();
+  const [compareSourceId, setCompareSourceId] = useState<NodeId | null>(null);
+  const [mergeIds, setMergeIds] = useState<NodeId[]>([]); // branches picked for a merge, in history order
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [toolNames, setToolNames] = useState<string[]>([]);
+  const [notes, setNotes] = useState<WorkspaceNote[]>([]);
+  const providerSettings = useProviderSettings();
+  const [workspaceId, setWorkspaceId] = useState<WorkspaceId | null>(null);
+  const latestRef = useRef({ scene, vp, systemPrompt, toolNames, notes, workspaceId, workspaces, abortControllers });
+  latestRef.current = { scene, vp, systemPrompt, toolNames, notes, workspaceId, workspaces, abortControllers };
+  const undoRef = useRef(createUndoHistory());
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Call before changing the scene on the user's behalf. Streaming output and
+  // measured sizes aren't recorded; they follow along in whatever is restored.
+  const recordUndo = (key?: string) => {
+    undoRef.current = recordChange(undoRef.current, latestRef.current.scene, key);
+  };
+
+  // Requests for nodes that the restored scene drops, or shows as no longer
+  // generating, are stopped.
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    const { scene: current, abortControllers: controllers } = latestRef.current;
+    const step = (direction === 'undo' ? undoChange : redoChange)(undoRef.current, current, Object.keys(controllers));
+    if (!step) return;
+    undoRef.current = step.history;
+    Object.entries(controllers).forEach(([nodeId, controller]) => {
+      if (!isGenerating(step.scene.nodes[nodeId])) controller.abort();
+    });
+    setScene(step.scene);
+    setSelectedIds(ids => ids.filter(id => step.scene.nodes[id]));
+    setEditing(null);
+    setContextMenu(null);
+    setMergeIds(ids => ids.filter(id => step.scene.nodes[id]));
+  };
+
+  const snapshotWorkspace = (): Workspace | null => {
+    const current = latestRef.current;
+    if (!current.workspaceId) return null;
+    return {
+      id: current.workspaceId,
+      name: current.workspaces.find(w => w.id === current.workspaceId)?.name ?? 'Untitled',
+      updatedAt: Date.now(),
+      scene: toPersistedScene(current.scene, Object.keys(current.abortControllers)),
+      vp: current.vp,
+      systemPrompt: current.systemPrompt || undefined,
+      tools: current.toolNames.length > 0 ? current.toolNames : undefined,
+      notes: current.notes.length > 0 ? current.notes : undefined,
+    };
+  };
+
+  const saveCurrentWorkspace = async () => {
+    const workspace = snapshotWorkspace();
+    if (!workspace) return;
+    try {
+      await saveWorkspace(workspace);
+    } catch (error) {
+      console.error('Error saving workspace:', error);
+    }
+  };
+
+  const openWorkspace = (workspace: Workspace) => {
+    Object.values(latestRef.current.abortControllers).forEach(controller => controller.abort());
+    setScene(upgradeLegacyScene(workspace.scene));
+    undoRef.current = createUndoHistory();
+    setVp(workspace.vp);
+    setSystemPrompt(workspace.systemPrompt ?? '');
+    setToolNames(workspace.tools ?? []);
+    setNotes(workspace.notes ?? []);
+    setWorkspaceId(workspace.id);
+    setSelectedId(null);
+    setHoverId(null);
+    setEditing(null);
+    setContextMenu(null);
+    setMergeIds([]);
+    setLastWorkspaceId(workspace.id);
+  };
+
+  const createWorkspace = async (name: string, initialScene = createInitialScene(), initialVp = DEFAULT_VIEWPORT, settings: WorkspaceSettings = {}): Promise<Workspace> => {
+    const workspace: Workspace = { id: uid(), name, updatedAt: Date.now(), scene: initialScene, vp: initialVp, ...settings };
+    await saveWorkspace(workspace);
+    return workspace;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      const metas = await listWorkspaces();
+      const lastId = getLastWorkspaceId();
+      const target = metas.find(w => w.id === lastId) ?? metas[0];
+      const stored = target ? await loadWorkspace(target.id) : undefined;
+      if (cancelled) return;
+      if (stored) {
+        setWorkspaces(metas);
+        openWorkspace(stored);
+        return;
+      }
+      const workspace = await createWorkspace('Untitled');
+      if (cancelled) return;
+      setWorkspaces([...metas, workspace]);
+      openWorkspace(workspace);
+    };
+    restore().catch(error => console.error('Error restoring workspace:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    saveTimerRef.current = setTimeout(saveCurrentWorkspace, SAVE_DELAY_MS);
+    return () => clearTimeout(saveTimerRef.current);
+  }, [scene, vp, systemPrompt, toolNames, notes, workspaceId]);
+
+  useEffect(() => {
+    const flush = () => { saveCurrentWorkspace(); };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  const selectWorkspace = async (id: WorkspaceId) => {
+    if (id === workspaceId) return;
+    await saveCurrentWorkspace();
+    const stored = await loadWorkspace(id);
+    if (stored) openWorkspace(stored);
+  };
+
+  const addWorkspace = async () => {
+    await saveCurrentWorkspace();
+    const workspace = await createWorkspace(`Workspace ${workspaces.length + 1}`);
+    setWorkspaces(ws => [...ws, workspace]);
+    openWorkspace(workspace);
+  };
+
+  const renameWorkspace = async (id: WorkspaceId, name: string) => {
+    setWorkspaces(ws => ws.map(w => (w.id === id ? { ...w, name } : w)));
+    const stored = id === workspaceId ? snapshotWorkspace() : await loadWorkspace(id);
+    if (stored) await saveWorkspace({ ...stored, name });
+  };
+
+  const duplicateWorkspace = async (id: WorkspaceId) => {
+    const source = id === workspaceId ? snapshotWorkspace() : await loadWorkspace(id);
+    if (!source) return;
+    await saveCurrentWorkspace();
+    const copy: Workspace = { ...source, id: uid(), name: `${source.name} copy`, updatedAt: Date.now() };
+    await saveWorkspace(copy);
+    setWorkspaces(ws => [...ws, copy]);
+    openWorkspace(copy);
+  };
+
+  const importChatLogs = async () => {
+    const file = await pickFile('.json,.jsonl,application/json');
+    if (!file) return;
+    try {
+      const { logs, issues } = parseChatLogs(await file.text());
+      const { scene: merged, added } = mergeChatLogs(scene, logs);
+      recordUndo();
+      setScene(merged);
+      const first = merged.nodes[added[0]];
+      if (first) setVp(v => ({ ...v, x: 100 - first.x * v.scale, y: 100 - first.y * v.scale }));
+      if (issues.length > 0) {
+        window.alert(`Imported ${file.name} with ${issues.length} skipped entr${issues.length === 1 ? 'y' : 'ies'}:\n\n${issues.join('\n')}`);
+      }
+    } catch (error) {
+      window.alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const workspaceName = workspaces.find(w => w.id === workspaceId)?.name ?? 'graph';
+
+  const exportScene = () => {
+    const file = serializeScene(toPersistedScene(scene, Object.keys(abortControllers)), vp, workspaceName, { systemPrompt, tools: toolNames, notes });
+    downloadFile(`${toFileName(workspaceName)}.graph.json`, JSON.stringify(file, null, 2), 'application/json');
+  };
+
+  const exportImage = async (format: 'svg' | 'png', area: 'graph' | 'viewport') => {
+    const container = containerRef.current;
+    const region = area === 'graph'
+      ? getSceneRegion(scene)
+      : container && getViewportRegion(vp, container.clientWidth, container.clientHeight);
+    if (!region) return;
+    const scale = area === 'viewport' ? vp.scale : 1;
+    const svg = renderSceneToSvg(scene, region, scale);
+    const fileName = `${toFileName(workspaceName)}-${area}`;
+    if (format === 'svg') {
+      downloadFile(`${fileName}.svg`, svg, 'image/svg+xml');
+      return;
+    }
+    try {
+      const png = await renderSvgToPng(svg, Math.ceil(region.w * scale), Math.ceil(region.h * scale));
+      downloadFile(`${fileName}.png`, png, 'image/png');
+    } catch (error) {
+      console.error('Error rendering PNG:', error);
+    }
+  };
+
+  const exportBranch = (nodeId: NodeId, format: TranscriptFormat) => {
+    const transcript = branchToTranscript(getPreferredLeaf(nodeId, scene.nodes), scene.nodes, format, systemPrompt);
+    const extension = format === 'markdown' ? 'md' : 'txt';
+    downloadFile(`${toFileName(workspaceName)}-branch.${extension}`, transcript, format === 'markdown' ? 'text/markdown' : 'text/plain');
+    setContextMenu(null);
+  };
+
+  const copyBranch = async (nodeId: NodeId) => {
+    setContextMenu(null);
+    try {
+      await navigator.clipboard.writeText(branchToTranscript(getPreferredLeaf(nodeId, scene.nodes), scene.nodes, 'markdown', systemPrompt));
+    } catch (error) {
+      console.error('Error copying transcript:', error);
+    }
+  };
+
+  const exportTree = () => {
+    downloadFile(`${toFileName(workspaceName)}-tree.md`, treeToMarkdown(scene, workspaceName), 'text/markdown');
+    setContextMenu(null);
+  };
+
+  const importScene = async () => {
+    const file = await pickFile('.json,application/json');
+    if (!file) return;
+    try {
+      const imported = parseSceneFile(await file.text());
+      await saveCurrentWorkspace();
+      const workspace = await createWorkspace(imported.name ?? file.name.replace(/(\.graph)?\.json$/i, ''), imported.scene, imported.vp, imported.settings);
+      setWorkspaces(ws => [...ws, workspace]);
+      openWorkspace(workspace);
+      if (imported.issues.length > 0) {
+        window.alert(`Imported ${file.name} with ${imported.issues.length} repair(s):\n\n${imported.issues.join('\n')}`);
+      }
+    } catch (error) {
+      window.alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const removeWorkspace = async (id: WorkspaceId) => {
+    const wasOpen = id === latestRef.current.workspaceId;
+    if (wasOpen) {
+      // Neither the pending autosave nor a pagehide flush may write it back.
+      clearTimeout(saveTimerRef.current);
+      latestRef.current.workspaceId = null;
+      setWorkspaceId(null);
+    }
+    await deleteWorkspace(id);
+    setWorkspaces(ws => ws.filter(w => w.id !== id));
+    if (!wasOpen) return;
+    const remaining = latestRef.current.workspaces.filter(w => w.id !== id);
+    const next = remaining[0] ? await loadWorkspace(remaining[0].id) : undefined;
+    if (next) {
+      openWorkspace(next);
+    } else {
+      const workspace = await createWorkspace('Untitled');
+      setWorkspaces(ws => [...ws, workspace]);
+      openWorkspace(workspace);
+    }
+  };
 
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -147,23 +391,38 @@ export default function ConversationGraph() {
 
   const screenToWorld = (sx: number, sy: number) => ({ x: (sx - vp.x) / vp.scale, y: (sy - vp.y) / vp.scale });
 
+  const viewCenter = () => ({ x: (containerRef.current?.clientWidth ?? 0) / 2, y: (containerRef.current?.clientHeight ?? 0) / 2 });
+
+  // Shift-dragging the background draws a selection marquee; otherwise it pans.
   const onMouseDown = (e: React.MouseEvent) => {
-    setSelectedId(null);
+    setSelectionActions(null);
     setEditing(null);
+    if (e.shiftKey) {
+      setMarquee({ sx: e.clientX, sy: e.clientY, x: e.clientX, y: e.clientY });
+      return;
+    }
+    setSelectedId(null);
     setPanning({ active: true, sx: e.clientX, sy: e.clientY, ox: vp.x, oy: vp.y });
   };
 
+  // Shift or Ctrl/Cmd-click adds or removes a node. Dragging a selected node
+  // moves the whole selection.
   const onNodeMouseDown = (e: React.MouseEvent, nodeId: NodeId) => {
     e.stopPropagation();
-    setSelectedId(nodeId);
-    const { x, y } = screenToWorld(e.clientX, e.clientY);
-    const node = scene.nodes[nodeId];
-    setDragging({ id: nodeId, dx: x - node.x, dy: y - node.y });
+    setSelectionActions(null);
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      setSelectedIds(ids => (ids.includes(nodeId) ? ids.filter(id => id !== nodeId) : [...ids, nodeId]));
+      return;
+    }
+    const movedIds = selectedIds.includes(nodeId) ? selectedIds : [nodeId];
+    if (!selectedIds.includes(nodeId)) setSelectedId(nodeId);
+    const origins = Object.fromEntries(movedIds.flatMap(id => (scene.nodes[id] ? [[id, { x: scene.nodes[id].x, y: scene.nodes[id].y }]] : [])));
+    setDragging({ start: screenToWorld(e.clientX, e.clientY), origins, undoKey: `move:${uid()}` });
   };
 
   const onDoubleClick = (e: React.MouseEvent, nodeId: NodeId) => {
     e.stopPropagation();
-    if (scene.nodes[nodeId]?.author === 'user') {
+    if (isEditable(scene.nodes[nodeId])) {
       setSelectedId(nodeId);
       setEditing(nodeId);
       editingValueRef.current = scene.nodes[nodeId]?.text || '';
@@ -172,6 +431,7 @@ export default function ConversationGraph() {
 
   const commitEdit = () => {
     if (!editing) return;
+    if (scene.nodes[editing]?.text !== editingValueRef.current) recordUndo();
     setScene(s => ({
       ...s,
       nodes: { ...s.nodes, [editing]: { ...s.nodes[editing], text: editingValueRef.current } },
@@ -181,7 +441,21 @@ export default function ConversationGraph() {
 
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
-      if (e.key === ' ' && !editing) {
+      if ((e.target as HTMLElement).closest?.('input, textarea, select')) return;
+      if (editing) {
+        if (e.key === 'Enter' && !e.shiftKey) {
+          e.preventDefault();
+          commitEdit();
+        }
+        if (e.key === 'Escape') setEditing(null);
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen(true);
+        return;
+      }
+      if (e.key === ' ') {
         const selection = window.getSelection();
         if (selection && selection.toString().trim() !== '') {
           const selectedText = selection.toString().trim();
@@ -196,40 +470,24 @@ export default function ConversationGraph() {
                 const nodeId = nodeElement.getAttribute('data-node-id');
                 if (nodeId && scene.nodes[nodeId] && scene.nodes[nodeId].author === 'llm') {
                   e.preventDefault();
-                  addBranchFromSelection(nodeId, selectedText, selection);
+                  openSelectionActions(nodeId, selectedText, selection);
                   return;
                 }
               }
             }
           }
         }
-        
-        if (selectedId) {
-          const node = scene.nodes[selectedId];
-          if (node?.author === 'user' && node.text.trim() !== '') {
-            e.preventDefault();
-            addBotResponse(selectedId);
-          }
-        }
-      }
-      if (e.key === 'Enter' && selectedId && !editing) {
-        if (scene.nodes[selectedId]?.author === 'user') {
-          e.preventDefault();
-          setEditing(selectedId);
-          editingValueRef.current = scene.nodes[selectedId]?.text || '';
-        }
       }
-      if (editing && e.key === 'Enter' && !e.shiftKey) {
+      const context = getActionContext(selectedId);
+      const action = findShortcutAction(e, context);
+      if (action) {
         e.preventDefault();
-        commitEdit();
-      }
-      if (e.key === 'Escape') {
-        setEditing(null);
+        action.run(context);
       }
     };
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [selectedId, editing, scene.nodes]);
+  }, [selectedIds, editing, scene, vp, mergeIds, abortControllers, systemPrompt]);
 
   useEffect(() => {
     if (editing && contentEditableRef.current) {
@@ -244,6 +502,125 @@ export default function ConversationGraph() {
     }
   }, [editing]);
 
+  // Images go onto the given user node, or onto a new one at `point` (screen
+  // coordinates) when there isn't one.
+  const attachImages = async (files: File[], targetId: NodeId | null, point: { x: number; y: number }) => {
+    const read = await readImageAttachments(files).catch(error => {
+      console.error('Error reading images:', error);
+      return null;
+    });
+    if (!read) return;
+    const { attachments, skipped } = read;
+    if (skipped.length > 0) window.alert(`Skipped images over 5 MB: ${skipped.join(', ')}`);
+    if (attachments.length === 0) return;
+    recordUndo();
+    if (targetId) {
+      setScene(s => {
+        const node = s.nodes[targetId];
+        if (!node) return s;
+        return { ...s, nodes: { ...s.nodes, [targetId]: { ...node, attachments: [...(node.attachments ?? []), ...attachments] } } };
+      });
+      return;
+    }
+    const id = uid();
+    const { x, y } = screenToWorld(point.x, point.y);
+    setScene(s => ({ ...s, nodes: { ...s.nodes, [id]: { id, x, y, w: 240, h: 60, text: '', author: 'user', attachments, createdAt: Date.now() } } }));
+    setSelectedId(id);
+    setEditing(id);
+    editingValueRef.current = '';
+  };
+
+  const removeAttachment = (nodeId: NodeId, attachmentId: string) => {
+    recordUndo();
+    setScene(s => {
+      const node = s.nodes[nodeId];
+      if (!node) return s;
+      const attachments = node.attachments?.filter(a => a.id !== attachmentId);
+      return { ...s, nodes: { ...s.nodes, [nodeId]: { ...node, attachments: attachments?.length ? attachments : undefined } } };
+    });
+  };
+
+  const userNodeAt = (target: EventTarget | null) => {
+    const nodeId = (target as HTMLElement | null)?.closest?.('[data-node-id]')?.getAttribute('data-node-id');
+    return nodeId && scene.nodes[nodeId]?.author === 'user' ? nodeId : null;
+  };
+
+  const onDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    const files = getImageFiles(e.dataTransfer);
+    if (files.length === 0) return;
+    e.preventDefault();
+    attachImages(files, userNodeAt(e.target), { x: e.clientX, y: e.clientY });
+  };
+
+  const pasteCopiedNodes = (json: string) => {
+    const point = pointerRef.current ?? viewCenter();
+    let pasted: ReturnType<typeof pasteNodes>;
+    try {
+      pasted = pasteNodes(json, screenToWorld(point.x, point.y), selectedId ?? undefined);
+    } catch (error) {
+      console.error('Error pasting nodes:', error);
+      window.alert(`Could not paste nodes: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (!pasted) return;
+    const { nodes, edges, rootIds } = pasted;
+    recordUndo();
+    setScene(s => ({ ...s, nodes: { ...s.nodes, ...nodes }, edges: [...s.edges, ...edges] }));
+    setSelectedIds(rootIds);
+  };
+
+  // Copy and cut take the selected nodes along with everything below them,
+  // unless text is selected, which copies as usual.
+  useEffect(() => {
+    const onCopy = (e: ClipboardEvent) => {
+      if ((e.target as HTMLElement).closest?.('input, textarea, select')) return;
+      if (editing || selectedIds.length === 0 || !e.clipboardData) return;
+      if (window.getSelection()?.isCollapsed === false) return;
+      const { json, markdown } = copyNodes(selectedIds, scene, Object.keys(abortControllers));
+      e.clipboardData.setData(NODES_MIME_TYPE, json);
+      e.clipboardData.setData('text/plain', markdown);
+      e.preventDefault();
+      if (e.type === 'cut') deleteNodes(getSubtreeIds(selectedIds, scene.nodes));
+    };
+    window.addEventListener('copy', onCopy);
+    window.addEventListener('cut', onCopy);
+    return () => {
+      window.removeEventListener('copy', onCopy);
+      window.removeEventListener('cut', onCopy);
+    };
+  }, [selectedIds, editing, scene, abortControllers]);
+
+  // Copied nodes are pasted at the mouse, under the selected node if there is
+  // one. A pasted image goes onto the user node being edited or selected, or
+  // onto a new node in the middle of the view.
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      if ((e.target as HTMLElement).closest?.('input, textarea, select')) return;
+      const copied = e.clipboardData?.getData(NODES_MIME_TYPE);
+      if (copied && !editing) {
+        e.preventDefault();
+        pasteCopiedNodes(copied);
+        return;
+      }
+      const files = getImageFiles(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      const targetId = editing ?? selectedId;
+      const container = containerRef.current;
+      attachImages(
+        files,
+        targetId && scene.nodes[targetId]?.author === 'user' ? targetId : null,
+        { x: (container?.clientWidth ?? 0) / 2, y: (container?.clientHeight ?? 0) / 2 },
+      );
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [selectedId, editing, scene.nodes, vp]);
+
   const onContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
     const target = e.target as HTMLElement;
@@ -251,15 +628,61 @@ export default function ConversationGraph() {
     setContextMenu({ x: e.clientX, y: e.clientY, nodeId });
   };
 
-  const addNode = () => {
-    if (!contextMenu) return;
-    const { x, y } = screenToWorld(contextMenu.x, contextMenu.y);
+  // New nodes go where the menu was opened, or else at the mouse.
+  const addNode = (author: Node['author'] = 'user') => {
+    const point = contextMenu ?? pointerRef.current ?? viewCenter();
+    const { x, y } = screenToWorld(point.x, point.y);
     const id = uid();
-    const newNode: Node = { id, x, y, w: 220, h: 60, text: '', author: 'user' };
+    const newNode: Node = { id, x, y, w: 220, h: 60, text: '', author, createdAt: Date.now() };
+    recordUndo();
     setScene(s => ({ ...s, nodes: { ...s.nodes, [id]: newNode } }));
     setContextMenu(null);
+    if (author === 'system') {
+      setSelectedId(id);
+      setEditing(id);
+      editingValueRef.current = '';
+    }
   };
 
+  // The new node takes the target's place under its parent, so the prompt
+  // applies to the target and everything below it but not to its siblings.
+  // Merge parents stay linked to the target.
+  const insertSystemPromptAbove = (nodeId: NodeId) => {
+    const target = scene.nodes[nodeId];
+    if (!target) return;
+    const id = uid();
+    const size = estimateNodeSize('');
+    const shift = size.h + ROW_GAP;
+    const children = getChildren(scene.nodes);
+    const moved = new Set<NodeId>();
+    const stack = [nodeId];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      moved.add(current);
+      stack.push(...(children[current] ?? []));
+    }
+
+    recordUndo();
+    setScene(s => {
+      const nodes: Record<NodeId, Node> = {};
+      Object.values(s.nodes).forEach(node => {
+        nodes[node.id] = moved.has(node.id) ? { ...node, y: node.y + shift } : node;
+      });
+      nodes[nodeId] = { ...nodes[nodeId], parentId: id };
+      nodes[id] = { id, x: target.x, y: target.y, w: size.w, h: size.h, text: '', author: 'system', parentId: target.parentId, createdAt: Date.now() };
+      return {
+        nodes,
+        edges: [...s.edges.map(edge => (edge.to === nodeId && edge.from === target.parentId ? { ...edge, to: id } : edge)), { from: id, to: nodeId }],
+      };
+    });
+    setSelectedId(id);
+    setEditing(id);
+    editingValueRef.current = '';
+    setContextMenu(null);
+  };
+
+  // Also runs when a generation finishes, so undo is recorded by the callers
+  // that act for the user.
   const createNextUserNode = (parentNodeId: NodeId) => {
     setScene(s => {
       const parentNode = s.nodes[parentNodeId];
@@ -274,6 +697,7 @@ export default function ConversationGraph() {
         h: 60,
         text: '',
         author: 'user',
+        createdAt: Date.now(),
         parentId: parentNodeId,
       };
     
@@ -291,139 +715,210 @@ export default function ConversationGraph() {
     });
   };
 
+  const patchGeneratedNode = (nodeId: NodeId, patch: (node: Node) => Partial<Node>) => {
+    setScene(s => {
+      const node = s.nodes[nodeId];
+      if (!node) return s;
+      return { ...s, nodes: { ...s.nodes, [nodeId]: { ...node, ...patch(node) } } };
+    });
+  };
+
+  const removeAbortController = (nodeId: NodeId) => {
+    setAbortControllers(prev => {
+      const { [nodeId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
   const fetchCompletion = async (
-    history: { role: 'user' | 'assistant', content: string }[],
+    history: ChatMessage[],
     botNodeId: NodeId,
+    provider: Provider,
+    params: Record<string, unknown>,
     signal: AbortSignal,
-    onDone?: (botNodeId: NodeId) => void
+    onDone?: (botNodeId: NodeId) => void,
+    { toolRound = 0, offerTools = true }: ToolLoopOptions = {},
   ) => {
-    setScene(s => ({
-      ...s,
-      nodes: {
-        ...s.nodes,
-        [botNodeId]: { ...s.nodes[botNodeId], text: LOADING_PLACEHOLDER },
-      },
-    }));
-
-    try {
-      const payload = {
-        messages: history,
-        stream: true,
-        cache_prompt: true,
-        samplers: 'edkypmxt',
-        temperature: 0.8,
-        dynatemp_range: 0,
-        dynatemp_exponent: 1,
-        top_k: 40,
-        top_p: 0.95,
-        min_p: 0.05,
-        typical_p: 1,
-        xtc_probability: 0,
-        xtc_threshold: 0.1,
-        repeat_last_n: 64,
-        repeat_penalty: 1,
-        presence_penalty: 0,
-        frequency_penalty: 0,
-        dry_multiplier: 0,
-        dry_base: 1.75,
-        dry_allowed_length: 2,
-        dry_penalty_last_n: -1,
-        max_tokens: -1,
-        timings_per_token: false
-      };
+    const patchNode = (patch: (node: Node) => Partial<Node>) => patchGeneratedNode(botNodeId, patch);
+    const tools = offerTools && toolRound < MAX_TOOL_ROUNDS ? toToolSpecs(latestRef.current.toolNames) : [];
 
-      const response = await fetch('http://127.0.0.1:8080/v1/chat/completions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-        signal,
-      });
+    patchNode(() => ({ text: '', status: { state: 'streaming' } }));
 
-      if (!response.ok) throw new Error('Network response was not ok');
-
-      const reader = response.body!.getReader();
-      const decoder = new TextDecoder('utf-8');
-      let assistantText = '';
-      let finished = false;
-
-      while (!finished) {
-        const { value, done } = await reader.read();
-        if (done) {
-          finished = true;
-          break;
-        }
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.startsWith('data: '));
-
-        for (const line of lines) {
-          const payload = line.replace(/^data: /, '');
-          if (payload === '[DONE]') {
-            finished = true;
-            break;
-          }
-          
-          const parsed = JSON.parse(payload);
-          const content = parsed.choices[0].delta.content;
-
-          if (content) {
-            assistantText += content;
-            setScene(s => {
-              if (!s.nodes[botNodeId]) return s;
-              return {
-                ...s,
-                nodes: {
-                  ...s.nodes,
-                  [botNodeId]: { ...s.nodes[botNodeId], text: assistantText },
-                },
-              }
-            });
-          }
-          if (parsed.choices[0].finish_reason === 'stop') {
-            finished = true;
-            break;
-          }
-        }
+    try {
+      const result = await withRetry(
+        () => streamChatCompletion(provider, history, {
+          params,
+          tools,
+          signal,
+          onText: assistantText => patchNode(() => ({ text: assistantText })),
+        }),
+        {
+          signal,
+          onRetry: (attempt, error) => patchNode(() => ({ text: '', status: { state: 'streaming', attempt, lastError: error.message } })),
+        },
+      );
+
+      patchNode(node => ({
+        status: { state: 'complete' },
+        durationMs: result.durationMs,
+        stats: result.stats,
+        ...(node.provider && !node.provider.model && result.model ? { provider: { ...node.provider, model: result.model } } : {}),
+      }));
+      if (tools.length > 0 && result.toolCalls.length > 0) {
+        runToolCalls(botNodeId, result.toolCalls, result.text, { history, provider, params }, onDone, toolRound)
+          .catch(error => console.error('Error running tools:', error));
+      } else {
+        onDone?.(botNodeId);
       }
     } catch (error) {
-      if (error.name === 'AbortError') {
-        setScene(s => {
-          if (!s.nodes[botNodeId]) return s;
-          const currentText = s.nodes[botNodeId].text;
-          const newText = currentText === LOADING_PLACEHOLDER ? 'Halted.' : currentText + ' [Halted]';
-          return {
-            ...s,
-            nodes: {
-              ...s.nodes,
-              [botNodeId]: { ...s.nodes[botNodeId], text: newText },
-            },
-          }
-        });
+      if (error instanceof Error && error.name === 'AbortError') {
+        // No follow-up: the node was stopped, undone or deleted.
+        patchNode(() => ({ status: { state: 'halted' } }));
       } else {
         console.error('Error fetching completion:', error);
-        setScene(s => {
-          if (!s.nodes[botNodeId]) return s;
-          return {
-            ...s,
-            nodes: {
-              ...s.nodes,
-              [botNodeId]: { ...s.nodes[botNodeId], text: 'Error fetching response.' },
-            },
-          }
-        });
+        patchNode(() => ({
+          status: {
+            state: 'error',
+            message: error instanceof Error ? error.message : String(error),
+            httpStatus: error instanceof CompletionError ? error.status : undefined,
+          },
+        }));
       }
     } finally {
-      setAbortControllers(prev => {
-        const { [botNodeId]: _, ...rest } = prev;
-        return rest;
+      removeAbortController(botNodeId);
+    }
+  };
+
+  // Generations wait for a free slot on their provider; the controller can
+  // cancel them while they wait as well as while they stream.
+  const queueCompletion = (
+    history: ChatMessage[],
+    botNodeId: NodeId,
+    provider: Provider,
+    params: Record<string, unknown>,
+    controller: AbortController,
+    onDone?: (botNodeId: NodeId) => void,
+    toolLoop?: ToolLoopOptions,
+  ) => {
+    setAbortControllers(prev => ({ ...prev, [botNodeId]: controller }));
+    patchGeneratedNode(botNodeId, () => ({ status: { state: 'queued' } }));
+    generationQueue.enqueue({
+      nodeId: botNodeId,
+      poolId: provider.id,
+      limit: provider.maxConcurrent ?? DEFAULT_MAX_CONCURRENT,
+      signal: controller.signal,
+      run: () => fetchCompletion(history, botNodeId, provider, params, controller.signal, onDone, toolLoop),
+      onCancel: () => {
+        patchGeneratedNode(botNodeId, () => ({ status: { state: 'halted' } }));
+        removeAbortController(botNodeId);
+      },
+    });
+  };
+
+  // Each tool call in a response becomes a `tool` node holding the call and its
+  // result, chained below the response. Once they have all run, the model is
+  // asked again from the last of them.
+  const runToolCalls = async (
+    botNodeId: NodeId,
+    calls: ToolCall[],
+    responseText: string,
+    { history, provider, params }: { history: ChatMessage[]; provider: Provider; params: Record<string, unknown> },
+    onDone: ((botNodeId: NodeId) => void) | undefined,
+    toolRound: number,
+  ) => {
+    const toolNodeIds = calls.map(() => uid());
+    setScene(s => {
+      let parent = s.nodes[botNodeId];
+      if (!parent) return s;
+      const nodes = { ...s.nodes };
+      const edges = [...s.edges];
+      calls.forEach((call, i) => {
+        const toolNode: Node = {
+          id: toolNodeIds[i],
+          x: parent.x,
+          y: parent.y + parent.h + 60,
+          w: 240,
+          h: 60,
+          text: '',
+          author: 'tool',
+          createdAt: Date.now(),
+          parentId: parent.id,
+          toolCall: call,
+          status: { state: 'streaming' },
+        };
+        nodes[toolNode.id] = toolNode;
+        edges.push({ from: parent.id, to: toolNode.id });
+        parent = toolNode;
       });
-      if (onDone) {
-        onDone(botNodeId);
-      }
+      return { ...s, nodes, edges };
+    });
+
+    const results: ChatMessage[] = [];
+    for (const [i, call] of calls.entries()) {
+      const result = await runToolCall(call, { notes: latestRef.current.notes });
+      patchGeneratedNode(toolNodeIds[i], () => ({
+        text: result.content,
+        status: result.error ? { state: 'error', message: result.error } : { state: 'complete' },
+      }));
+      results.push({ role: 'tool', content: result.content, tool_call_id: call.id });
     }
+
+    const followUp = fitHistoryOrWarn([...history, { role: 'assistant', content: responseText, tool_calls: calls }, ...results], provider, params);
+    if (!followUp) return;
+    const lastToolId = toolNodeIds[toolNodeIds.length - 1];
+    const id = uid();
+    setScene(s => {
+      const parent = s.nodes[lastToolId];
+      if (!parent) return s;
+      const followUpNode: Node = {
+        id,
+        x: parent.x,
+        y: parent.y + parent.h + 60,
+        w: 240,
+        h: 60,
+        text: '',
+        author: 'llm',
+        createdAt: Date.now(),
+        parentId: lastToolId,
+        provider: toProviderRef(provider),
+        samplingUsed: params,
+      };
+      return { ...s, nodes: { ...s.nodes, [id]: followUpNode }, edges: [...s.edges, { from: lastToolId, to: id }] };
+    });
+    queueCompletion(followUp, id, provider, params, new AbortController(), onDone, { toolRound: toolRound + 1 });
+  };
+
+  // Runs a failed or halted response again in place, with the provider and
+  // parameters it was first generated with.
+  const retryNode = (nodeId: NodeId) => {
+    const node = scene.nodes[nodeId];
+    if (!node?.parentId || abortControllers[nodeId]) return;
+    const provider = providerSettings.providers.find(p => p.id === node.provider?.id) ?? getActiveProvider();
+    const params = node.samplingUsed ?? { ...provider.params, ...resolveSamplingOverrides(node.parentId, scene.nodes) };
+    const pathHistory = getConversationHistory(node.parentId, scene.nodes, latestRef.current.systemPrompt);
+    const history = fitHistoryOrWarn(
+      node.checkpoint ? [...pathHistory, { role: 'user', content: CHECKPOINT_REQUEST }] : pathHistory,
+      provider,
+      params,
+    );
+    if (!history) return;
+    recordUndo();
+    const hasChildren = Object.values(scene.nodes).some(n => n.parentId === nodeId);
+    queueCompletion(history, nodeId, provider, params, new AbortController(), hasChildren ? undefined : createNextUserNode, { offerTools: !node.checkpoint });
   };
 
-  const addBranchFromSelection = async (sourceNodeId: NodeId, selectedText: string, selection: Selection) => {
+  const fitHistoryOrWarn = (history: ChatMessage[], provider: Provider, params: Record<string, unknown>) => {
+    const fitted = fitHistory(history, provider, params);
+    if (fitted.blocked) {
+      window.alert(`This path needs about ${fitted.tokens} tokens, but ${provider.name} has room for ${fitted.budget}. Shorten the path or change the overflow strategy in the provider settings.`);
+      return null;
+    }
+    return fitted.messages;
+  };
+
+  // The branch's edge starts where the selection ends, so it is remembered
+  // before the quick actions take focus away from it.
+  const openSelectionActions = (sourceNodeId: NodeId, selectedText: string, selection: Selection) => {
     const sourceNode = scene.nodes[sourceNodeId];
     if (!sourceNode) return;
 
@@ -436,17 +931,29 @@ export default function ConversationGraph() {
         x: worldPoint.x - sourceNode.x,
         y: worldPoint.y - sourceNode.y,
     };
+    setSelectionActions({ nodeId: sourceNodeId, text: selectedText, fromPoint, x: screenX + 8, y: rect.bottom + 4 });
+  };
+
+  const addBranchFromSelection = async (sourceNodeId: NodeId, userMessage: string, fromPoint: { x: number; y: number }) => {
+    const sourceNode = scene.nodes[sourceNodeId];
+    if (!sourceNode) return;
 
-    const userMessage = `"${selectedText}"\n\nExplain this part more.`;
+    const provider = getActiveProvider();
+    const params = { ...provider.params, ...resolveSamplingOverrides(sourceNodeId, scene.nodes) };
     const userNodeId = uid();
     const userNode: Node = {
         id: userNodeId,
         x: 0, y: 0, w: 0, h: 0, // Not rendered
         text: userMessage,
         author: 'user',
+        createdAt: Date.now(),
         parentId: sourceNodeId,
     };
 
+    const newNodesForHistory = { ...scene.nodes, [userNodeId]: userNode };
+    const history = fitHistoryOrWarn(getConversationHistory(userNodeId, newNodesForHistory, latestRef.current.systemPrompt), provider, params);
+    if (!history) return;
+
     const botNodeId = uid();
     const botNode: Node = {
         id: botNodeId,
@@ -456,81 +963,298 @@ export default function ConversationGraph() {
         h: 60,
         text: '',
         author: 'llm',
+        createdAt: Date.now(),
         parentId: userNodeId,
+        provider: toProviderRef(provider),
+        samplingUsed: params,
     };
     
     const newEdge: Edge = { from: sourceNodeId, to: botNodeId, fromPoint };
 
-    const newNodesForHistory = { ...scene.nodes, [userNodeId]: userNode };
-
+    recordUndo();
     setScene(s => ({
         ...s,
         nodes: { ...s.nodes, [userNodeId]: userNode, [botNodeId]: botNode },
         edges: [...s.edges, newEdge],
     }));
 
-    const controller = new AbortController();
-    setAbortControllers(prev => ({ ...prev, [botNodeId]: controller }));
-    const history = getConversationHistory(userNodeId, newNodesForHistory);
-    fetchCompletion(history, botNodeId, controller.signal, createNextUserNode);
+    queueCompletion(history, botNodeId, provider, params, new AbortController(), createNextUserNode);
   };
 
-  const addBotResponse = async (parentNodeId: NodeId) => {
+  // Responses to the same prompt are placed side by side, to the right of any
+  // earlier ones, one per provider given. A single response gets a follow-up
+  // prompt right away; with several, that waits until one is marked preferred.
+  const addBotResponses = (
+    parentNodeId: NodeId,
+    { providers = [getActiveProvider()], fields = {}, fullHistory = false }: { providers?: Provider[]; fields?: Partial<Node>; fullHistory?: boolean } = {},
+  ) => {
     const parentNode = scene.nodes[parentNodeId];
     if (!parentNode) return;
 
-    const botNodeId = uid();
-    const botNode: Node = {
-      id: botNodeId,
-      x: parentNode.x,
-      y: parentNode.y + parentNode.h + 60,
+    const overrides = resolveSamplingOverrides(parentNodeId, scene.nodes);
+    const pathHistory = getConversationHistory(parentNodeId, scene.nodes, latestRef.current.systemPrompt, { fullHistory });
+    const requests: { provider: Provider; params: Record<string, unknown>; history: ChatMessage[] }[] = [];
+    for (const provider of providers) {
+      const params = { ...provider.params, ...overrides };
+      const history = fitHistoryOrWarn(pathHistory, provider, params);
+      if (!history) return;
+      requests.push({ provider, params, history });
+    }
+    const siblings = Object.values(scene.nodes).filter(n => n.parentId === parentNodeId && n.author === 'llm');
+    const siblingEdge = scene.edges.find(edge => siblings.some(n => n.id === edge.to));
+    const x = siblings.length > 0 ? Math.max(...siblings.map(n => n.x + n.w)) + COLUMN_GAP : parentNode.x;
+    const y = siblings.length > 0 ? Math.min(...siblings.map(n => n.y)) : parentNode.y + parentNode.h + 60;
+    const botNodes: Node[] = requests.map(({ provider, params }, i) => ({
+      id: uid(),
+      x: x + i * (MAX_NODE_WIDTH + COLUMN_GAP),
+      y,
       w: 240,
       h: 60,
       text: '',
       author: 'llm',
+      createdAt: Date.now(),
       parentId: parentNodeId,
+      provider: toProviderRef(provider),
+      samplingUsed: params,
+      ...fields,
+    }));
+    const newEdges: Edge[] = botNodes.map(botNode => (siblingEdge ? { ...siblingEdge, to: botNode.id } : { from: parentNodeId, to: botNode.id }));
+
+    recordUndo();
+    setScene(s => ({
+      ...s,
+      nodes: { ...s.nodes, ...Object.fromEntries(botNodes.map(n => [n.id, n])) },
+      edges: [...s.edges, ...newEdges],
+    }));
+
+    botNodes.forEach((botNode, i) => {
+      const { provider, params, history } = requests[i];
+      queueCompletion(history, botNode.id, provider, params, new AbortController(), botNodes.length === 1 ? createNextUserNode : undefined);
+    });
+  };
+
+  const addBotResponse = (parentNodeId: NodeId) => addBotResponses(parentNodeId);
+
+  const generateWithFullHistory = (parentNodeId: NodeId) => {
+    addBotResponses(parentNodeId, { fullHistory: true });
+    setContextMenu(null);
+  };
+
+  // Asks the model to summarize the path so far into a checkpoint node; the
+  // conversation continues below it without resending what it summarizes.
+  const createCheckpoint = (nodeId: NodeId) => {
+    const node = scene.nodes[nodeId];
+    setContextMenu(null);
+    if (!node) return;
+
+    const provider = getActiveProvider();
+    const params = { ...provider.params, ...resolveSamplingOverrides(nodeId, scene.nodes) };
+    const history = fitHistoryOrWarn(
+      [...getConversationHistory(nodeId, scene.nodes, latestRef.current.systemPrompt), { role: 'user', content: CHECKPOINT_REQUEST }],
+      provider,
+      params,
+    );
+    if (!history) return;
+
+    const children = Object.values(scene.nodes).filter(n => n.parentId === nodeId && n.w > 0);
+    const id = uid();
+    const checkpointNode: Node = {
+      id,
+      x: children.length > 0 ? Math.max(...children.map(n => n.x + n.w)) + COLUMN_GAP : node.x,
+      y: node.y + node.h + 60,
+      w: 240,
+      h: 60,
+      text: '',
+      author: 'system',
+      createdAt: Date.now(),
+      checkpoint: true,
+      parentId: nodeId,
+      provider: toProviderRef(provider),
+      samplingUsed: params,
     };
-    const newEdge: Edge = { from: parentNodeId, to: botNodeId };
+    recordUndo();
+    setScene(s => ({
+      ...s,
+      nodes: { ...s.nodes, [id]: checkpointNode },
+      edges: [...s.edges, { from: nodeId, to: id }],
+    }));
+    queueCompletion(history, id, provider, params, new AbortController(), createNextUserNode, { offerTools: false });
+  };
+
+  const regenerate = (nodeId: NodeId) => {
+    const parentId = scene.nodes[nodeId]?.parentId;
+    if (parentId) addBotResponses(parentId);
+    setContextMenu(null);
+  };
+
+  const generateVariants = (parentNodeId: NodeId) => {
+    setContextMenu(null);
+    const answer = window.prompt('Number of variants to generate', String(DEFAULT_VARIANT_COUNT));
+    if (answer === null) return;
+    const count = Math.round(Number(answer));
+    if (!Number.isFinite(count) || count < 1) return;
+    const provider = getActiveProvider();
+    addBotResponses(parentNodeId, { providers: Array.from({ length: Math.min(count, MAX_VARIANT_COUNT) }, () => provider) });
+  };
+
+  const openCompare = (nodeId: NodeId) => {
+    setCompareSourceId(nodeId);
+    setPanel('compare');
+    setContextMenu(null);
+  };
 
+  const compareModels = (parentNodeId: NodeId, providerIds: string[]) => {
+    const providers = providerSettings.providers.filter(p => providerIds.includes(p.id));
+    if (providers.length < 2) return;
+    addBotResponses(parentNodeId, { providers, fields: { comparisonId: uid() } });
+  };
+
+  // Only one response per prompt can be preferred. Continuing from it starts
+  // a follow-up prompt if it doesn't have one yet.
+  const togglePreferred = (nodeId: NodeId) => {
+    const node = scene.nodes[nodeId];
+    setContextMenu(null);
+    if (!node) return;
+    const preferred = !node.preferred;
+    recordUndo();
+    setScene(s => {
+      const nodes = { ...s.nodes };
+      Object.values(s.nodes).forEach(n => {
+        if (n.id === nodeId) nodes[n.id] = { ...n, preferred: preferred || undefined };
+        else if (preferred && n.parentId === node.parentId && n.preferred) nodes[n.id] = { ...n, preferred: undefined };
+      });
+      return { ...s, nodes };
+    });
+    const hasChildren = Object.values(scene.nodes).some(n => n.parentId === nodeId);
+    if (preferred && !hasChildren && !abortControllers[nodeId]) createNextUserNode(nodeId);
+  };
+
+  const setSamplingOverrides = (nodeId: NodeId, overrides: SamplingParams | undefined) => {
+    recordUndo(`overrides:${nodeId}`);
+    setScene(s => {
+      if (!s.nodes[nodeId]) return s;
+      return { ...s, nodes: { ...s.nodes, [nodeId]: { ...s.nodes[nodeId], samplingOverrides: overrides } } };
+    });
+  };
+
+  const toggleMergeId = (nodeId: NodeId) => {
+    setMergeIds(ids => (ids.includes(nodeId) ? ids.filter(id => id !== nodeId) : [...ids, nodeId]));
+    setContextMenu(null);
+  };
+
+  // A merge node continues from several branches at once; its history is each
+  // picked branch in turn, with any shared beginning sent once.
+  const createMergeNode = () => {
+    const parents = mergeIds.map(id => scene.nodes[id]).filter(Boolean);
+    if (parents.length < 2) return;
+    const id = uid();
+    const newNode: Node = {
+      id,
+      x: parents.reduce((sum, p) => sum + p.x, 0) / parents.length,
+      y: Math.max(...parents.map(p => p.y + p.h)) + ROW_GAP,
+      w: 240,
+      h: 60,
+      text: '',
+      author: 'user',
+      createdAt: Date.now(),
+      parentId: parents[0].id,
+      mergeParentIds: parents.slice(1).map(p => p.id),
+    };
+    recordUndo();
     setScene(s => ({
       ...s,
-      nodes: { ...s.nodes, [botNodeId]: botNode },
-      edges: [...s.edges, newEdge],
+      nodes: { ...s.nodes, [id]: newNode },
+      edges: [...s.edges, ...parents.map(p => ({ from: p.id, to: id }))],
     }));
+    setMergeIds([]);
+    setSelectedId(id);
+    setEditing(id);
+    editingValueRef.current = '';
+  };
 
-    const controller = new AbortController();
-    setAbortControllers(prev => ({ ...prev, [botNodeId]: controller }));
-    const history = getConversationHistory(parentNodeId, scene.nodes);
-    fetchCompletion(history, botNodeId, controller.signal, createNextUserNode);
+  // Adds the picked branches as further parents of an existing node, skipping
+  // any that sit below it.
+  const mergeIntoNode = (targetId: NodeId) => {
+    const target = scene.nodes[targetId];
+    setContextMenu(null);
+    if (!target) return;
+    const existing = getParentIds(target);
+    const candidates = mergeIds.filter(id => id !== targetId && !existing.includes(id) && scene.nodes[id]);
+    const rejected = candidates.filter(id => wouldCreateCycle(targetId, id, scene.nodes));
+    const added = candidates.filter(id => !rejected.includes(id));
+    if (rejected.length > 0) {
+      window.alert(`Skipped ${rejected.length} branch${rejected.length === 1 ? '' : 'es'} that continue from this node; linking them would create a cycle.`);
+    }
+    if (added.length === 0) return;
+    recordUndo();
+    setScene(s => {
+      const node = s.nodes[targetId];
+      if (!node) return s;
+      const [first, ...rest] = node.parentId ? [node.parentId, ...added] : added;
+      return {
+        ...s,
+        nodes: { ...s.nodes, [targetId]: { ...node, parentId: first, mergeParentIds: [...(node.mergeParentIds ?? []), ...rest] } },
+        edges: [...s.edges, ...added.map(id => ({ from: id, to: targetId }))],
+      };
+    });
+    setMergeIds([]);
   };
 
-  const deleteNode = (nodeId: NodeId) => {
+  // Generations of deleted nodes are stopped, and merges below them keep
+  // their remaining parents.
+  const deleteNodes = (nodeIds: NodeId[]) => {
+    nodeIds.forEach(id => {
+      generationQueue.cancel(id);
+      abortControllers[id]?.abort();
+    });
+    recordUndo();
     setScene(s => {
-      const { [nodeId]: _, ...newNodes } = s.nodes;
-      const newEdges = s.edges.filter(edge => edge.from !== nodeId && edge.to !== nodeId);
+      const newNodes = { ...s.nodes };
+      nodeIds.forEach(id => delete newNodes[id]);
+      Object.values(newNodes).forEach(node => {
+        if (!node.mergeParentIds?.some(id => nodeIds.includes(id))) return;
+        const mergeParentIds = node.mergeParentIds.filter(id => !nodeIds.includes(id));
+        newNodes[node.id] = { ...node, mergeParentIds: mergeParentIds.length > 0 ? mergeParentIds : undefined };
+      });
+      const newEdges = s.edges.filter(edge => !nodeIds.includes(edge.from) && !nodeIds.includes(edge.to));
       return { nodes: newNodes, edges: newEdges };
     });
+    setSelectedIds(ids => ids.filter(id => !nodeIds.includes(id)));
+    setMergeIds(ids => ids.filter(id => !nodeIds.includes(id)));
     setContextMenu(null);
   };
 
+  const moveNodes = (positions: Record<NodeId, { x: number; y: number }>) => {
+    setScene(s => {
+      const nodes = { ...s.nodes };
+      Object.entries(positions).forEach(([id, { x, y }]) => {
+        if (nodes[id]) nodes[id] = { ...nodes[id], x, y };
+      });
+      return { ...s, nodes };
+    });
+  };
+
+  const arrangeSelection = (mode: ArrangeMode) => {
+    const positions = arrangeNodes(selectedIds.map(id => scene.nodes[id]).filter(Boolean), mode);
+    if (Object.keys(positions).length === 0) return;
+    recordUndo();
+    moveNodes(positions);
+  };
+
   const onMouseMove = (e: React.MouseEvent) => {
+    pointerRef.current = { x: e.clientX, y: e.clientY };
     if (dragging) {
       const { x, y } = screenToWorld(e.clientX, e.clientY);
-      setScene(s => {
-        const node = s.nodes[dragging.id];
-        if (!node) return s;
-        return {
-          ...s,
-          nodes: {
-            ...s.nodes,
-            [dragging.id]: {
-              ...node,
-              x: x - dragging.dx,
-              y: y - dragging.dy,
-            },
-          },
-        };
-      });
+      recordUndo(dragging.undoKey); // a whole drag is one undo step
+      moveNodes(Object.fromEntries(Object.entries(dragging.origins).map(([id, origin]) => [
+        id,
+        { x: origin.x + x - dragging.start.x, y: origin.y + y - dragging.start.y },
+      ])));
+      return;
+    }
+
+    if (marquee) {
+      setMarquee({ ...marquee, x: e.clientX, y: e.clientY });
       return;
     }
 
@@ -542,6 +1266,15 @@ export default function ConversationGraph() {
   const onMouseUp = () => {
     setPanning(null);
     setDragging(null);
+    if (marquee) {
+      const a = screenToWorld(Math.min(marquee.sx, marquee.x), Math.min(marquee.sy, marquee.y));
+      const b = screenToWorld(Math.max(marquee.sx, marquee.x), Math.max(marquee.sy, marquee.y));
+      const inside = Object.values(scene.nodes)
+        .filter(n => n.w > 0 && n.x < b.x && n.x + n.w > a.x && n.y < b.y && n.y + n.h > a.y)
+        .map(n => n.id);
+      setSelectedIds(ids => [...ids, ...inside.filter(id => !ids.includes(id))]);
+      setMarquee(null);
+    }
   };
 
   const onWheel = (e: React.WheelEvent) => {
@@ -567,6 +1300,104 @@ export default function ConversationGraph() {
     });
   };
 
+  const stopAll = () => {
+    Object.values(abortControllers).forEach(controller => controller.abort());
+  };
+
+  const panToNode = (nodeId: NodeId) => {
+    const node = scene.nodes[nodeId];
+    const container = containerRef.current;
+    if (!node || !container) return;
+    setSelectedId(nodeId);
+    setVp(v => ({
+      ...v,
+      x: container.clientWidth / 2 - (node.x + node.w / 2) * v.scale,
+      y: container.clientHeight / 2 - (node.y + node.h / 2) * v.scale,
+    }));
+  };
+
+  // Selects a node and pans just far enough to bring it into view.
+  const revealNode = (nodeId: NodeId) => {
+    const node = scene.nodes[nodeId];
+    const container = containerRef.current;
+    if (!node || !container) return;
+    setSelectedId(nodeId);
+    const shift = (start: number, size: number, viewSize: number) => {
+      if (start < REVEAL_MARGIN) return REVEAL_MARGIN - start;
+      if (start + size > viewSize - REVEAL_MARGIN) return Math.max(REVEAL_MARGIN - start, viewSize - REVEAL_MARGIN - start - size);
+      return 0;
+    };
+    setVp(v => {
+      const dx = shift(v.x + node.x * v.scale, node.w * v.scale, container.clientWidth);
+      const dy = shift(v.y + node.y * v.scale, node.h * v.scale, container.clientHeight);
+      return dx === 0 && dy === 0 ? v : { ...v, x: v.x + dx, y: v.y + dy };
+    });
+  };
+
+  // Without a selection, the arrow keys start from the node nearest the middle of the view.
+  const navigate = (direction: Direction) => {
+    const fromId = selectedId ?? selectedIds.at(-1);
+    const center = viewCenter();
+    const nextId = fromId ? getNeighbor(fromId, direction, scene.nodes) : getNearestNode(screenToWorld(center.x, center.y), scene.nodes);
+    if (nextId) revealNode(nextId);
+  };
+
+  const actionCommands: GraphCommands = {
+    undo: () => stepHistory('undo'),
+    redo: () => stepHistory('redo'),
+    addNode,
+    resetView: () => setVp(DEFAULT_VIEWPORT),
+    stopAll,
+    importScene,
+    importChatLogs,
+    exportScene,
+    exportTree,
+    togglePanel: name => setPanel(p => (p === name ? null : name)),
+    navigate,
+    reveal: revealNode,
+    clearSelection: () => setSelectedId(null),
+    generate: addBotResponse,
+    generateWithFullHistory,
+    generateVariants,
+    compareModels: openCompare,
+    regenerate,
+    halt: nodeId => abortControllers[nodeId]?.abort(),
+    reply: nodeId => {
+      recordUndo();
+      createNextUserNode(nodeId);
+    },
+    edit: nodeId => {
+      setSelectedId(nodeId);
+      setEditing(nodeId);
+      editingValueRef.current = scene.nodes[nodeId]?.text || '';
+    },
+    insertSystemPromptAbove,
+    createCheckpoint,
+    togglePreferred,
+    toggleMerge: toggleMergeId,
+    mergeInto: mergeIntoNode,
+    deleteNodes,
+    copyBranch,
+    exportBranch,
+  };
+
+  const getActionContext = (nodeId: NodeId | null): ActionContext => ({
+    nodeId,
+    selectedIds,
+    scene,
+    mergeIds,
+    streamingIds: Object.keys(abortControllers),
+    commands: actionCommands,
+  });
+
+  const menuContext = contextMenu && getActionContext(contextMenu.nodeId);
+
+  const selectedNode = selectedId ? scene.nodes[selectedId] ?? null : null;
+  const activeProvider = getActiveProvider(providerSettings);
+  const pathTokens = selectedId ? estimateHistoryTokens(getConversationHistory(selectedId, scene.nodes, systemPrompt)) : 0;
+  const pathBudget = selectedId ? getPromptBudget(activeProvider, { ...activeProvider.params, ...resolveSamplingOverrides(selectedId, scene.nodes) }) : 0;
+  const hoveredNode = hoverId ? scene.nodes[hoverId] : undefined;
+
   const gridSize = 24 * vp.scale;
   const backgroundPosition = `${(vp.x % gridSize + gridSize) % gridSize}px ${(vp.y % gridSize + gridSize) % gridSize}px`;
   const backgroundImage = `linear-gradient(to right, #E5E7EB 1px, transparent 1px), linear-gradient(to bottom, #E5E7EB 1px, transparent 1px)`;
@@ -574,6 +1405,7 @@ export default function ConversationGraph() {
 
   return (
     <div
+      ref={containerRef}
       style={{
         position: 'relative',
         width: '100%',
@@ -590,6 +1422,8 @@ export default function ConversationGraph() {
       onMouseUp={onMouseUp}
       onWheel={onWheel}
       onContextMenu={onContextMenu}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
     >
       <div
         style={{
@@ -602,10 +1436,9 @@ export default function ConversationGraph() {
           const toNode = scene.nodes[edge.to];
           if (!fromNode || !toNode) return null;
 
-          const x1 = edge.fromPoint ? fromNode.x + edge.fromPoint.x : fromNode.x + fromNode.w / 2;
-          const y1 = edge.fromPoint ? fromNode.y + edge.fromPoint.y : fromNode.y + fromNode.h;
-          const x2 = toNode.x + toNode.w / 2;
-          const y2 = toNode.y;
+          const { x1, y1, x2, y2 } = getEdgePoints(edge, fromNode, toNode);
+          // Merge edges are numbered in the order their branches are sent.
+          const mergeOrder = toNode.mergeParentIds ? getParentIds(toNode).indexOf(edge.from) + 1 : 0;
 
           return (
             <svg key={`${edge.from}-${edge.to}`} style={{ position: 'absolute', top: 0, left: 0, overflow: 'visible', pointerEvents: 'none', zIndex: -1 }}>
@@ -617,11 +1450,17 @@ export default function ConversationGraph() {
                 stroke="#9CA3AF"
                 strokeWidth={1}
               />
+              {mergeOrder > 0 && (
+                <g transform={`translate(${(x1 + x2) / 2}, ${(y1 + y2) / 2})`}>
+                  <circle r={9} fill="white" stroke="#F59E0B" />
+                  <text textAnchor="middle" dominantBaseline="central" fontSize={11} fill="#B45309">{mergeOrder}</text>
+                </g>
+              )}
             </svg>
           );
         })}
         {Object.values(scene.nodes).map(node => {
-          const isSelected = node.id === selectedId;
+          const isSelected = selectedIds.includes(node.id);
           const isHovered = node.id === hoverId;
           const isEditing = editing === node.id;
           
@@ -643,13 +1482,13 @@ export default function ConversationGraph() {
                 height: 'auto',
                 minWidth: 240,
                 maxWidth: 560,
-                background: 'white',
+                background: nodeBackground(node),
                 border: `1px solid transparent`,
                 borderRadius: 4,
-                boxShadow: `0 0 0 ${isSelected ? 2 : 1}px ${isSelected ? '#6366F1' : isHovered ? '#A3A3A3' : '#9CA3AF'} `,
+                boxShadow: `0 0 0 ${isSelected || mergeIds.includes(node.id) ? 2 : 1}px ${isSelected ? '#6366F1' : mergeIds.includes(node.id) ? '#F59E0B' : isHovered ? '#A3A3A3' : '#9CA3AF'} `,
                 padding: '8px 12px',
                 boxSizing: 'border-box',
-                cursor: dragging?.id === node.id ? 'grabbing' : 'grab',
+                cursor: dragging?.origins[node.id] ? 'grabbing' : 'grab',
                 userSelect: isEditing ? 'none' : 'auto',
                 zIndex: isSelected ? 1 : 0,
                 color: '#0F172A',
@@ -661,12 +1500,15 @@ export default function ConversationGraph() {
                 alignItems: 'flex-start',
               }}
             >
-              <div style={{ marginTop: '2px', flexShrink: 0 }}>
-                {node.author === 'user' ? <UserIcon /> : <BotIcon />}
+              <div
+                style={{ marginTop: '2px', flexShrink: 0 }}
+                title={node.provider ? `${node.provider.name}${node.provider.model ? ` · ${node.provider.model}` : ''}` : undefined}
+              >
+                <NodeIcon node={node} />
               </div>
               <div
                 ref={isEditing ? contentEditableRef : null}
-                contentEditable={isEditing && node.author === 'user'}
+                contentEditable={isEditing && isEditable(node)}
                 suppressContentEditableWarning={true}
                 onInput={e => editingValueRef.current = e.currentTarget.innerText}
                 onBlur={commitEdit}
@@ -676,53 +1518,56 @@ export default function ConversationGraph() {
                   if (contextMenuRef.current?.contains(e.target as Node)) {
                     return;
                   }
-                  if (!(isEditing && node.author === 'user')) {
-                    setSelectedId(node.id);
+                  if (!(isEditing && isEditable(node))) {
+                    if (e.shiftKey || e.ctrlKey || e.metaKey) onNodeMouseDown(e, node.id);
+                    else setSelectedId(node.id);
                     e.stopPropagation();
                   }
                 }}
               >
-                {node.author === 'llm' && node.text === LOADING_PLACEHOLDER ? (
+                {node.checkpoint && (
+                  <div style={{ color: '#2563EB', fontSize: 12, fontWeight: 600 }}>Checkpoint summary</div>
+                )}
+                {node.toolCall && (
+                  <div style={{ color: '#047857', fontSize: 12, fontWeight: 600, fontFamily: 'monospace' }}>{formatToolCall(node.toolCall)}</div>
+                )}
+                {node.comparisonId && node.provider && (
+                  <div style={{ color: '#64748B', fontSize: 12, fontWeight: 600 }}>
+                    {node.provider.model || node.provider.name}
+                  </div>
+                )}
+                {node.status?.state === 'streaming' && node.text === '' ? (
                   <LoadingIndicator />
-                ) : isEditing && node.author === 'user' ? (
+                ) : isEditing && isEditable(node) ? (
                   node.text
                 ) : (
-                  <ReactMarkdown
-                    components={{
-                      p: props => <p style={{ margin: 0 }} {...props} />,
-                      h1: props => <h1 style={{ fontSize: '1.2em', margin: 0 }} {...props} />,
-                      h2: props => <h2 style={{ fontSize: '1.1em', margin: 0 }} {...props} />,
-                      h3: props => <h3 style={{ margin: 0 }} {...props} />,
-                      h4: props => <h4 style={{ fontSize: '1em', margin: 0 }} {...props} />,
-                      h5: props => <h5 style={{ fontSize: '0.9em', margin: 0 }} {...props} />,
-                      h6: props => <h6 style={{ fontSize: '0.8em', margin: 0 }} {...props} />,
-                      ul: props => <ul style={{ margin: 0, paddingLeft: '1.5em' }} {...props} />,
-                      ol: props => <ol style={{ margin: 0, paddingLeft: '1.5em' }} {...props} />,
-                      blockquote: props => <blockquote style={{ margin: 0, paddingLeft: '1em', borderLeft: '2px solid #ccc' }} {...props} />,
-                      code(props) {
-                        const {children, className, node, ...rest} = props
-                        const match = /language-(\w+)/.exec(className || '');
-                        return match
-                          ? <SyntaxHighlighter
-                              {...rest}
-                              language={match[1]}
-                              PreTag='div'
-                              style={vscDarkPlus}
-                              customStyle={{ overflowX: 'auto' }}
-                            >
-                              {String(children).replace(/\n$/, '')}
-                            </SyntaxHighlighter>
-                          : <code className={className} {...props}>
-                              {children}
-                            </code>
-                      }
-                    }}
-                  >
-                    {node.text}
-                  </ReactMarkdown>
+                  <NodeMarkdown text={node.text} />
+                )}
+                {node.attachments && node.attachments.length > 0 && (
+                  <AttachmentThumbnails
+                    attachments={node.attachments}
+                    onRemove={isEditing ? undefined : attachmentId => removeAttachment(node.id, attachmentId)}
+                  />
+                )}
+                <NodeStatus
+                  node={node}
+                  queuePosition={getQueuePosition(queue, node.id)}
+                  onRetry={node.author === 'tool' ? undefined : () => retryNode(node.id)}
+                  onCancel={() => abortControllers[node.id]?.abort()}
+                />
+                {node.stats?.finishReason === 'length' && (
+                  <div style={{ color: '#D97706', fontSize: 12, fontWeight: 600 }}>Truncated: hit the token limit.</div>
+                )}
+                {node.preferred && (
+                  <div style={{ color: '#16A34A', fontSize: 12 }}>★ Preferred</div>
                 )}
               </div>
-              {node.author === 'user' && node.text.trim() !== '' && (
+              {node.text !== '' && (
+                <div style={{ position: 'absolute', top: -16, right: 0, color: '#9CA3AF', fontSize: 10, lineHeight: '14px', pointerEvents: 'none' }}>
+                  ~{estimateTokens(node.text)} tok
+                </div>
+              )}
+              {hasPrompt(node) && (
                 <div
                   onClick={(e) => {
                     e.stopPropagation();
@@ -755,35 +1600,190 @@ export default function ConversationGraph() {
             </div>
           );
         })}
+        {(hoveredNode?.author === 'llm' || hoveredNode?.checkpoint) && !abortControllers[hoveredNode.id] && !dragging && (
+          <NodeHoverCard node={hoveredNode} />
+        )}
       </div>
 
-      {contextMenu && (
+      {selectionActions && (
+        <SelectionActions
+          x={selectionActions.x}
+          y={selectionActions.y}
+          templates={promptTemplates}
+          onPick={template => {
+            const source = scene.nodes[selectionActions.nodeId];
+            const message = fillTemplate(template.template, { selection: selectionActions.text, node: source?.text ?? '' });
+            addBranchFromSelection(selectionActions.nodeId, message, selectionActions.fromPoint);
+            setSelectionActions(null);
+          }}
+          onAsk={question => {
+            addBranchFromSelection(selectionActions.nodeId, `"${selectionActions.text}"\n\n${question}`, selectionActions.fromPoint);
+            setSelectionActions(null);
+          }}
+          onClose={() => setSelectionActions(null)}
+        />
+      )}
+      {contextMenu && menuContext && (
         <div ref={contextMenuRef} style={{ position: 'absolute', left: contextMenu.x, top: contextMenu.y, background: 'white', border: '1px solid #A0A0A0', zIndex: 10, padding: 0 }}>
-          <button
-            onClick={addNode}
-            style={{ display: 'block', width: '100%', background: 'none', border: 'none', borderRadius: 0, color: 'black', padding: '4px 20px', font: '14px system-ui, sans-serif', textAlign: 'left', cursor: 'pointer' }}
-            onMouseEnter={e => e.currentTarget.style.backgroundColor = '#f0f0f0'}
-            onMouseLeave={e => e.currentTarget.style.backgroundColor = 'transparent'}
-          >
-            Add Node
-          </button>
-          {contextMenu.nodeId && (
+          {listActions().filter(action => action.contextMenu && isActionAvailable(action, menuContext)).map(action => (
             <button
-              onClick={() => deleteNode(contextMenu.nodeId!)}
-              style={{ display: 'block', width: '100%', background: 'none', border: 'none', borderRadius: 0, color: 'black', padding: '4px 20px', font: '14px system-ui, sans-serif', textAlign: 'left', cursor: 'pointer' }}
-              onMouseEnter={e => e.currentTarget.style.backgroundColor = '#f0f0f0'}
-              onMouseLeave={e => e.currentTarget.style.backgroundColor = 'transparent'}
+              key={action.id}
+              onClick={() => {
+                setContextMenu(null);
+                action.run(menuContext);
+              }}
+              style={{ ...menuItemStyle, display: 'flex', gap: 16 }}
+              {...highlightOnHover}
             >
-              Delete Node
+              <span style={{ flex: 1 }}>{getActionLabel(action, menuContext)}</span>
+              {action.shortcuts && <span style={{ color: '#9CA3AF', fontSize: 12 }}>{formatShortcut(action.shortcuts[0])}</span>}
             </button>
-          )}
+          ))}
         </div>
       )}
 
+      {paletteOpen && (
+        <CommandPalette
+          context={getActionContext(selectedId)}
+          onRun={action => {
+            setPaletteOpen(false);
+            action.run(getActionContext(selectedId));
+          }}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
+
       <div style={{ position: 'absolute', left: 12, top: 12, display: 'flex', gap: 8, zIndex: 3 }}>
-        <button onClick={() => setVp({ x: 0, y: 0, scale: 1 })} style={{ background: '#111827', color: '#fff', border: 'none', borderRadius: 10, padding: '8px 12px', font: '12px Inter, system-ui, sans-serif', cursor: 'pointer' }}>Reset View</button>
+        <WorkspaceSwitcher
+          workspaces={workspaces}
+          currentId={workspaceId}
+          onSelect={selectWorkspace}
+          onCreate={addWorkspace}
+          onRename={renameWorkspace}
+          onDuplicate={duplicateWorkspace}
+          onDelete={removeWorkspace}
+        />
+        <button onClick={() => setPaletteOpen(true)} title={formatShortcut('Mod+K')} style={toolbarButtonStyle}>Commands</button>
+        <button onClick={() => setVp(DEFAULT_VIEWPORT)} style={toolbarButtonStyle}>Reset View</button>
+        <button onClick={exportScene} style={toolbarButtonStyle}>Export</button>
+        <button onClick={importScene} style={toolbarButtonStyle}>Import</button>
+        <button onClick={importChatLogs} style={toolbarButtonStyle}>Import Chat</button>
+        <button onClick={() => setPanel(p => (p === 'system' ? null : 'system'))} style={toolbarButtonStyle}>System Prompt</button>
+        <button onClick={() => setPanel(p => (p === 'templates' ? null : 'templates'))} style={toolbarButtonStyle}>Templates</button>
+        <button onClick={() => setPanel(p => (p === 'tools' ? null : 'tools'))} style={toolbarButtonStyle}>
+          Tools{toolNames.length > 0 ? ` (${toolNames.length})` : ''}
+        </button>
+        <button onClick={() => setPanel(p => (p === 'inspector' ? null : 'inspector'))} style={toolbarButtonStyle}>Inspector</button>
+        <button onClick={() => setPanel(p => (p === 'providers' ? null : 'providers'))} style={toolbarButtonStyle}>
+          Provider: {activeProvider.name}
+        </button>
+        <button onClick={() => setPanel(p => (p === 'activity' ? null : 'activity'))} style={toolbarButtonStyle}>
+          Activity{queue.running.length + queue.waiting.length > 0 ? ` (${queue.running.length + queue.waiting.length})` : ''}
+        </button>
+        {Object.keys(abortControllers).length > 0 && (
+          <button onClick={stopAll} style={{ ...toolbarButtonStyle, background: '#DC2626' }}>Stop All</button>
+        )}
+        <ToolbarMenu
+          label="Export Image"
+          items={[
+            { label: 'Whole Graph as SVG', onSelect: () => exportImage('svg', 'graph') },
+            { label: 'Whole Graph as PNG', onSelect: () => exportImage('png', 'graph') },
+            { label: 'Visible Area as SVG', onSelect: () => exportImage('svg', 'viewport') },
+            { label: 'Visible Area as PNG', onSelect: () => exportImage('png', 'viewport') },
+          ]}
+        />
       </div>
 
+      {panel === 'providers' && <ProviderSettingsPanel onClose={() => setPanel(null)} />}
+      {panel === 'compare' && compareSourceId && scene.nodes[compareSourceId] && (
+        <ComparePanel
+          source={scene.nodes[compareSourceId]}
+          nodes={scene.nodes}
+          providers={providerSettings.providers}
+          streamingIds={Object.keys(abortControllers)}
+          onRun={providerIds => compareModels(compareSourceId, providerIds)}
+          onSelectNode={nodeId => setSelectedId(nodeId)}
+          onClose={() => setPanel(null)}
+        />
+      )}
+      {panel === 'activity' && (
+        <ActivityPanel
+          queue={queue}
+          nodes={scene.nodes}
+          onShowNode={panToNode}
+          onCancel={nodeId => abortControllers[nodeId]?.abort()}
+          onClose={() => setPanel(null)}
+        />
+      )}
+      {panel === 'system' && <SystemPromptPanel value={systemPrompt} onChange={setSystemPrompt} onClose={() => setPanel(null)} />}
+      {panel === 'templates' && <PromptTemplatesPanel onClose={() => setPanel(null)} />}
+      {panel === 'tools' && (
+        <ToolsPanel enabled={toolNames} notes={notes} onChangeEnabled={setToolNames} onChangeNotes={setNotes} onClose={() => setPanel(null)} />
+      )}
+      {panel === 'inspector' && (
+        <NodeInspector
+          node={selectedNode}
+          inherited={{
+            ...activeProvider.params,
+            ...(selectedNode?.parentId ? resolveSamplingOverrides(selectedNode.parentId, scene.nodes) : {}),
+          }}
+          onChangeOverrides={overrides => selectedNode && setSamplingOverrides(selectedNode.id, overrides)}
+          onClose={() => setPanel(null)}
+        />
+      )}
+
+      {marquee && (
+        <div
+          style={{
+            position: 'absolute',
+            left: Math.min(marquee.sx, marquee.x),
+            top: Math.min(marquee.sy, marquee.y),
+            width: Math.abs(marquee.x - marquee.sx),
+            height: Math.abs(marquee.y - marquee.sy),
+            border: '1px dashed #6366F1',
+            background: 'rgba(99, 102, 241, 0.08)',
+            pointerEvents: 'none',
+            zIndex: 3,
+          }}
+        />
+      )}
+
+      {selectedIds.length > 1 && (
+        <div
+          style={{ position: 'absolute', left: '50%', bottom: mergeIds.length > 0 ? 48 : 12, transform: 'translateX(-50%)', zIndex: 3, display: 'flex', alignItems: 'center', gap: 8, background: 'white', border: '1px solid #6366F1', borderRadius: 4, padding: '4px 8px', font: '12px system-ui, sans-serif' }}
+          onMouseDown={e => e.stopPropagation()}
+        >
+          <span>{selectedIds.length} selected</span>
+          <button onClick={() => arrangeSelection('align-left')} style={smallButtonStyle}>Align Left</button>
+          <button onClick={() => arrangeSelection('align-top')} style={smallButtonStyle}>Align Top</button>
+          <button onClick={() => arrangeSelection('distribute-horizontal')} disabled={selectedIds.length < 3} style={smallButtonStyle}>Space Horizontally</button>
+          <button onClick={() => arrangeSelection('distribute-vertical')} disabled={selectedIds.length < 3} style={smallButtonStyle}>Space Vertically</button>
+          <button onClick={() => deleteNodes(selectedIds)} style={{ ...smallButtonStyle, color: '#DC2626' }}>Delete</button>
+          <button onClick={() => setSelectedIds([])} style={smallButtonStyle}>Clear</button>
+        </div>
+      )}
+
+      {mergeIds.length > 0 && (
+        <div
+          style={{ position: 'absolute', left: '50%', bottom: 12, transform: 'translateX(-50%)', zIndex: 3, display: 'flex', alignItems: 'center', gap: 8, background: 'white', border: '1px solid #F59E0B', borderRadius: 4, padding: '4px 8px', font: '12px system-ui, sans-serif' }}
+          onMouseDown={e => e.stopPropagation()}
+        >
+          <span>
+            Merge: {mergeIds.map((id, i) => `${i + 1}. ${scene.nodes[id]?.text.trim().split('\n')[0].slice(0, 24) || 'untitled'}`).join('  ')}
+          </span>
+          <button onClick={createMergeNode} disabled={mergeIds.length < 2} style={smallButtonStyle}>Create Merge Node</button>
+          <button onClick={() => setMergeIds([])} style={smallButtonStyle}>Clear</button>
+        </div>
+      )}
+
+      {selectedNode && (
+        <div
+          style={{ position: 'absolute', left: 12, bottom: 12, zIndex: 3, background: 'white', border: `1px solid ${pathTokens > pathBudget ? '#DC2626' : '#A0A0A0'}`, borderRadius: 4, padding: '4px 8px', color: pathTokens > pathBudget ? '#DC2626' : '#0F172A', font: '12px system-ui, sans-serif', pointerEvents: 'none' }}
+        >
+          Path: ~{pathTokens} / {pathBudget} tokens{pathTokens > pathBudget ? ` · over by ${pathTokens - pathBudget}` : ''}
+        </div>
+      )}
+
       <div style={{ position: 'absolute', right: 12, top: 12, zIndex: 3, background: 'rgba(0,0,0,0.5)', color: 'white', padding: '4px 8px', borderRadius: 4, fontFamily: 'monospace', pointerEvents: 'none' }}>
         x: {vp.x.toFixed(2)}<br/>
         y: {vp.y.toFixed(2)}<br/>
@@ -0,0 +1,60 @@
+import { formatDuration } from './completionClient';
+import { formatParamValue } from './sampling';
+import type { Node } from './scene';
+
+const statLines = (node: Node) => {
+  const stats = node.stats ?? {};
+  const lines: [string, string][] = [];
+  if (stats.finishReason) lines.push(['finish', stats.finishReason]);
+  if (node.durationMs !== undefined) lines.push(['duration', formatDuration(node.durationMs)]);
+  if (stats.timeToFirstTokenMs !== undefined) lines.push(['first token', formatDuration(stats.timeToFirstTokenMs)]);
+  if (stats.promptTokens !== undefined) lines.push(['prompt tokens', String(stats.promptTokens)]);
+  if (stats.completionTokens !== undefined) lines.push(['generated tokens', String(stats.completionTokens)]);
+  if (stats.tokensPerSecond !== undefined) lines.push(['tokens/s', stats.tokensPerSecond.toFixed(1)]);
+  return lines;
+};
+
+// Shown next to a hovered `llm` node so answers from different branches can be
+// compared against the settings that produced them.
+export default function NodeHoverCard({ node }: { node: Node }) {
+  const stats = statLines(node);
+  if (!node.samplingUsed && stats.length === 0) return null;
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        transform: `translate(${node.x + node.w + 12}px, ${node.y}px)`,
+        minWidth: 180,
+        background: 'white',
+        border: '1px solid #E5E7EB',
+        borderRadius: 4,
+        boxShadow: '0 2px 8px rgba(15, 23, 42, 0.12)',
+        padding: '6px 8px',
+        color: '#334155',
+        font: '11px monospace',
+        lineHeight: '16px',
+        whiteSpace: 'nowrap',
+        pointerEvents: 'none',
+        zIndex: 5,
+      }}
+    >
+      {node.provider && (
+        <div style={{ fontFamily: 'system-ui, sans-serif', fontWeight: 600, marginBottom: 4 }}>
+          {node.provider.name}{node.provider.model ? ` · ${node.provider.model}` : ''}
+        </div>
+      )}
+      {stats.length > 0 && (
+        <div style={{ marginBottom: node.samplingUsed ? 4 : 0 }}>
+          {stats.map(([label, value]) => (
+            <div key={label} style={label === 'finish' && value === 'length' ? { color: '#D97706', fontWeight: 600 } : undefined}>
+              {label}: {value}{label === 'finish' && value === 'length' ? ' (truncated)' : ''}
+            </div>
+          ))}
+        </div>
+      )}
+      {node.samplingUsed && Object.entries(node.samplingUsed).map(([key, value]) => (
+        <div key={key}>{key}: {formatParamValue(value)}</div>
+      ))}
+    </div>
+  );
+}
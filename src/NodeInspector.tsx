@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { BUILT_IN_PRESETS, SAMPLING_FIELDS, deleteSamplingPreset, formatParamValue, saveSamplingPreset, useCustomPresets } from './sampling';
+import type { SamplingParams } from './sampling';
+import type { Node } from './scene';
+import { fieldInputStyle, fieldLabelStyle, panelStyle, smallButtonStyle } from './styles';
+
+type Props = {
+  node: Node | null;
+  inherited: Record<string, unknown>; // provider defaults merged with ancestor overrides
+  onChangeOverrides: (overrides: SamplingParams | undefined) => void;
+  onClose: () => void;
+};
+
+function ParamField({ label, step, value, placeholder, onCommit }: {
+  label: string;
+  step: number;
+  value: number | undefined;
+  placeholder: string;
+  onCommit: (value: number | undefined) => void;
+}) {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  const commit = () => {
+    if (text.trim() === '') {
+      onCommit(undefined);
+      return;
+    }
+    const parsed = Number(text);
+    if (Number.isFinite(parsed)) onCommit(parsed);
+    else setText(value === undefined ? '' : String(value));
+  };
+
+  return (
+    <label style={{ ...fieldLabelStyle, display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+      <span style={{ flex: 1, color: value === undefined ? '#64748B' : '#0F172A' }}>{label}</span>
+      <input
+        type="number"
+        step={step}
+        value={text}
+        placeholder={placeholder}
+        onChange={e => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+        style={{ ...fieldInputStyle, width: 90, marginTop: 0 }}
+      />
+    </label>
+  );
+}
+
+export default function NodeInspector({ node, inherited, onChangeOverrides, onClose }: Props) {
+  const customPresets = useCustomPresets();
+  const [presetName, setPresetName] = useState('');
+  const presets = [...BUILT_IN_PRESETS, ...customPresets];
+  const overrides = node?.samplingOverrides ?? {};
+
+  const setOverride = (key: string, value: number | undefined) => {
+    const rest = Object.fromEntries(Object.entries(overrides).filter(([k]) => k !== key));
+    const next = value === undefined ? rest : { ...rest, [key]: value };
+    onChangeOverrides(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const header = (
+    <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+      <strong style={{ flex: 1 }}>Inspector</strong>
+      <button onClick={onClose} style={smallButtonStyle}>Close</button>
+    </div>
+  );
+
+  if (!node) {
+    return (
+      <div style={panelStyle} onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+        {header}
+        <div style={{ color: '#64748B' }}>Select a node to inspect it.</div>
+      </div>
+    );
+  }
+
+  if (node.author === 'llm') {
+    return (
+      <div style={panelStyle} onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+        {header}
+        {node.provider && (
+          <div style={{ marginBottom: 8 }}>
+            {node.provider.name}{node.provider.model ? ` · ${node.provider.model}` : ''}
+          </div>
+        )}
+        <div style={fieldLabelStyle}>Parameters used</div>
+        {node.samplingUsed ? (
+          <div style={{ fontFamily: 'monospace', fontSize: 12 }}>
+            {Object.entries(node.samplingUsed).map(([key, value]) => (
+              <div key={key}>{key}: {formatParamValue(value)}</div>
+            ))}
+          </div>
+        ) : (
+          <div style={{ color: '#64748B' }}>Not recorded for this response.</div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div style={panelStyle} onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+      {header}
+      <div style={{ color: '#64748B', fontSize: 12, marginBottom: 8 }}>
+        Overrides apply to every response below this node. Empty fields inherit.
+      </div>
+      <label style={fieldLabelStyle}>
+        Apply preset
+        <select
+          style={fieldInputStyle}
+          value=""
+          onChange={e => {
+            const preset = presets.find(p => p.id === e.target.value);
+            if (preset) onChangeOverrides({ ...overrides, ...preset.params });
+          }}
+        >
+          <option value="">Choose…</option>
+          {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </label>
+      {SAMPLING_FIELDS.map(field => {
+        const value = overrides[field.key];
+        const numeric = typeof value === 'number' ? value : undefined;
+        return (
+          <ParamField
+            key={`${node.id}-${field.key}-${numeric}`}
+            label={field.label}
+            step={field.step}
+            value={numeric}
+            placeholder={field.key in inherited ? formatParamValue(inherited[field.key]) : ''}
+            onCommit={v => setOverride(field.key, v)}
+          />
+        );
+      })}
+      <div style={{ display: 'flex', gap: 8, margin: '8px 0' }}>
+        <button onClick={() => onChangeOverrides(undefined)} disabled={Object.keys(overrides).length === 0} style={smallButtonStyle}>
+          Clear overrides
+        </button>
+      </div>
+      <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+        <input
+          style={{ ...fieldInputStyle, marginTop: 0 }}
+          value={presetName}
+          placeholder="Preset name"
+          onChange={e => setPresetName(e.target.value)}
+        />
+        <button
+          onClick={() => {
+            saveSamplingPreset(presetName.trim(), overrides);
+            setPresetName('');
+          }}
+          disabled={presetName.trim() === '' || Object.keys(overrides).length === 0}
+          style={smallButtonStyle}
+        >
+          Save preset
+        </button>
+      </div>
+      {customPresets.length > 0 && (
+        <div style={{ marginTop: 8 }}>
+          {customPresets.map(p => (
+            <div key={p.id} style={{ display: 'flex', alignItems: 'center' }}>
+              <span style={{ flex: 1 }}>{p.name}</span>
+              <button onClick={() => deleteSamplingPreset(p.id)} style={smallButtonStyle}>Delete</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
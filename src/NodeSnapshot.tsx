@@ -0,0 +1,47 @@
+import NodeMarkdown from './NodeMarkdown';
+import AttachmentThumbnails from './AttachmentThumbnails';
+import { NodeIcon } from './icons';
+import NodeStatus from './NodeStatus';
+import type { Node } from './scene';
+import { formatToolCall } from './tools';
+
+// Static rendering of a node's box contents for image export.
+export default function NodeSnapshot({ node }: { node: Node }) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        gap: '8px',
+        alignItems: 'flex-start',
+        width: '100%',
+        height: '100%',
+        padding: '8px 12px',
+        boxSizing: 'border-box',
+        color: '#0F172A',
+        fontFamily: 'system-ui, Avenir, Helvetica, Arial, sans-serif',
+        fontSize: 14,
+        lineHeight: '20px',
+        whiteSpace: 'pre-wrap',
+        overflow: 'hidden',
+      }}
+    >
+      <div style={{ marginTop: '2px', flexShrink: 0 }}>
+        <NodeIcon node={node} />
+      </div>
+      <div style={{ width: '100%', overflowWrap: 'break-word' }}>
+        {node.toolCall && (
+          <div style={{ color: '#047857', fontSize: 12, fontWeight: 600, fontFamily: 'monospace' }}>{formatToolCall(node.toolCall)}</div>
+        )}
+        <NodeMarkdown text={node.text} />
+        {node.attachments && node.attachments.length > 0 && <AttachmentThumbnails attachments={node.attachments} />}
+        <NodeStatus node={node} />
+        {node.stats?.finishReason === 'length' && (
+          <div style={{ color: '#D97706', fontSize: 12, fontWeight: 600 }}>Truncated: hit the token limit.</div>
+        )}
+        {node.preferred && (
+          <div style={{ color: '#16A34A', fontSize: 12 }}>★ Preferred</div>
+        )}
+      </div>
+    </div>
+  );
+}
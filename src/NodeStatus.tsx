@@ -0,0 +1,66 @@
+import type React from 'react';
+import type { Node } from './scene';
+
+const noteStyle: React.CSSProperties = { color: '#9CA3AF', fontSize: 12, fontStyle: 'italic' };
+
+const inlineButtonStyle = (color: string): React.CSSProperties => ({
+  background: 'white', border: `1px solid ${color}`, borderRadius: 4, color, padding: '0 6px', font: '12px system-ui, sans-serif', fontStyle: 'normal', cursor: 'pointer',
+});
+
+function InlineButton({ label, color, onClick }: { label: string; color: string; onClick: () => void }) {
+  return (
+    <button
+      onMouseDown={e => e.stopPropagation()}
+      onClick={e => {
+        e.stopPropagation();
+        onClick();
+      }}
+      style={inlineButtonStyle(color)}
+    >
+      {label}
+    </button>
+  );
+}
+
+type Props = {
+  node: Node;
+  queuePosition?: number; // 1-based, while waiting for a slot
+  onRetry?: () => void;
+  onCancel?: () => void;
+};
+
+// Generation state shown under an `llm` node's text. Buttons are left out
+// where there is nothing to click, such as image export.
+export default function NodeStatus({ node, queuePosition, onRetry, onCancel }: Props) {
+  const status = node.status;
+  if (!status) return null;
+  switch (status.state) {
+    case 'queued':
+      return (
+        <div style={{ ...noteStyle, display: 'flex', gap: 8, alignItems: 'baseline' }}>
+          <span style={{ flex: 1 }}>Queued{queuePosition ? ` (#${queuePosition})` : ''}</span>
+          {onCancel && <InlineButton label="Cancel" color="#64748B" onClick={onCancel} />}
+        </div>
+      );
+    case 'streaming':
+      if (!status.attempt) return null;
+      return (
+        <div style={noteStyle}>
+          Retrying (attempt {status.attempt}){status.lastError ? ` after: ${status.lastError}` : ''}
+        </div>
+      );
+    case 'halted':
+      return <div style={noteStyle}>{status.interrupted ? 'Interrupted.' : 'Halted.'}</div>;
+    case 'error':
+      return (
+        <div style={{ color: '#DC2626', fontSize: 12, display: 'flex', gap: 8, alignItems: 'baseline' }}>
+          <span style={{ flex: 1 }}>
+            Error{status.httpStatus ? ` (HTTP ${status.httpStatus})` : ''}: {status.message}
+          </span>
+          {onRetry && <InlineButton label="Retry" color="#DC2626" onClick={onRetry} />}
+        </div>
+      );
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,71 @@
+import { createPromptTemplate, DEFAULT_PROMPT_TEMPLATES, setPromptTemplates, usePromptTemplates } from './promptTemplates';
+import type { PromptTemplate } from './promptTemplates';
+import { fieldInputStyle, fieldLabelStyle, panelStyle, smallButtonStyle } from './styles';
+
+export default function PromptTemplatesPanel({ onClose }: { onClose: () => void }) {
+  const templates = usePromptTemplates();
+
+  const update = (id: string, patch: Partial<PromptTemplate>) =>
+    setPromptTemplates(templates.map(t => (t.id === id ? { ...t, ...patch } : t)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...templates];
+    const [template] = next.splice(index, 1);
+    next.splice(index + offset, 0, template);
+    setPromptTemplates(next);
+  };
+
+  return (
+    <div style={panelStyle} onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <strong style={{ flex: 1 }}>Selection Templates</strong>
+        <button onClick={onClose} style={smallButtonStyle}>Close</button>
+      </div>
+      <div style={{ color: '#64748B', fontSize: 12, marginBottom: 8 }}>
+        Offered when you select text in a response and press Space. <code>{'{{selection}}'}</code> is the selected text and{' '}
+        <code>{'{{node}}'}</code> the whole response. Without a shortcut, a template's number in the list works instead.
+      </div>
+      {templates.map((template, i) => (
+        <div key={template.id} style={{ borderTop: '1px solid #E5E7EB', paddingTop: 8, marginBottom: 8 }}>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <label style={{ ...fieldLabelStyle, flex: 1 }}>
+              Name
+              <input style={fieldInputStyle} value={template.name} onChange={e => update(template.id, { name: e.target.value })} />
+            </label>
+            <label style={{ ...fieldLabelStyle, width: 64 }}>
+              Shortcut
+              <input
+                style={fieldInputStyle}
+                value={template.shortcut ?? ''}
+                maxLength={1}
+                onChange={e => update(template.id, { shortcut: e.target.value.toLowerCase() || undefined })}
+              />
+            </label>
+          </div>
+          <label style={fieldLabelStyle}>
+            Prompt
+            <textarea
+              style={{ ...fieldInputStyle, height: 80, resize: 'vertical' }}
+              value={template.template}
+              onChange={e => update(template.id, { template: e.target.value })}
+            />
+          </label>
+          <button onClick={() => move(i, -1)} disabled={i === 0} style={smallButtonStyle}>Up</button>
+          <button onClick={() => move(i, 1)} disabled={i === templates.length - 1} style={smallButtonStyle}>Down</button>
+          <button onClick={() => setPromptTemplates(templates.filter(t => t.id !== template.id))} style={{ ...smallButtonStyle, color: '#DC2626' }}>
+            Remove
+          </button>
+        </div>
+      ))}
+      <button onClick={() => setPromptTemplates([...templates, createPromptTemplate()])} style={smallButtonStyle}>Add template</button>
+      <button
+        onClick={() => {
+          if (window.confirm('Replace all templates with the defaults?')) setPromptTemplates(DEFAULT_PROMPT_TEMPLATES);
+        }}
+        style={smallButtonStyle}
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { DEFAULT_CONTEXT_SIZE, DEFAULT_KEEP_LAST_MESSAGES, DEFAULT_MAX_CONCURRENT, OVERFLOW_STRATEGIES, PROVIDER_KINDS, createProvider, setProviderSettings, useProviderSettings } from './providers';
+import type { OverflowStrategy, Provider, ProviderKind } from './providers';
+import { fieldInputStyle, fieldLabelStyle, panelStyle, smallButtonStyle } from './styles';
+
+const readPositiveInt = (value: string) => {
+  const parsed = Math.round(Number(value));
+  return value.trim() !== '' && parsed > 0 ? parsed : undefined;
+};
+
+type FormProps = {
+  provider: Provider;
+  onChange: (patch: Partial<Provider>) => void;
+};
+
+function ProviderForm({ provider, onChange }: FormProps) {
+  const [paramsText, setParamsText] = useState(() => JSON.stringify(provider.params, null, 2));
+  const [paramsError, setParamsError] = useState<string | null>(null);
+
+  const commitParams = () => {
+    try {
+      const params = JSON.parse(paramsText);
+      if (typeof params !== 'object' || params === null || Array.isArray(params)) throw new Error('Parameters must be a JSON object');
+      onChange({ params });
+      setParamsError(null);
+    } catch (error) {
+      setParamsError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <>
+      <label style={fieldLabelStyle}>
+        Name
+        <input style={fieldInputStyle} value={provider.name} onChange={e => onChange({ name: e.target.value })} />
+      </label>
+      <label style={fieldLabelStyle}>
+        API
+        <select style={fieldInputStyle} value={provider.kind} onChange={e => onChange({ kind: e.target.value as ProviderKind })}>
+          {PROVIDER_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+        </select>
+      </label>
+      <label style={fieldLabelStyle}>
+        Base URL
+        <input style={fieldInputStyle} value={provider.baseUrl} onChange={e => onChange({ baseUrl: e.target.value })} />
+      </label>
+      <label style={fieldLabelStyle}>
+        Model
+        <input style={fieldInputStyle} value={provider.model} placeholder="Server default" onChange={e => onChange({ model: e.target.value })} />
+      </label>
+      <label style={fieldLabelStyle}>
+        API key
+        <input style={fieldInputStyle} type="password" value={provider.apiKey ?? ''} placeholder="None" onChange={e => onChange({ apiKey: e.target.value || undefined })} />
+      </label>
+      <label style={fieldLabelStyle}>
+        API key header
+        <input style={fieldInputStyle} value={provider.apiKeyHeader ?? ''} placeholder="Authorization: Bearer" onChange={e => onChange({ apiKeyHeader: e.target.value || undefined })} />
+      </label>
+      <label style={fieldLabelStyle}>
+        Context size (tokens)
+        <input
+          style={fieldInputStyle}
+          type="number"
+          min={1}
+          value={provider.contextSize ?? ''}
+          placeholder={String(DEFAULT_CONTEXT_SIZE)}
+          onChange={e => onChange({ contextSize: readPositiveInt(e.target.value) })}
+        />
+      </label>
+      <label style={fieldLabelStyle}>
+        When a path doesn't fit
+        <select
+          style={fieldInputStyle}
+          value={provider.overflow ?? 'drop-oldest'}
+          onChange={e => onChange({ overflow: e.target.value as OverflowStrategy })}
+        >
+          {OVERFLOW_STRATEGIES.map(o => <option key={o.strategy} value={o.strategy}>{o.label}</option>)}
+        </select>
+      </label>
+      {provider.overflow === 'keep-last' && (
+        <label style={fieldLabelStyle}>
+          Messages to keep
+          <input
+            style={fieldInputStyle}
+            type="number"
+            min={1}
+            value={provider.keepLastMessages ?? ''}
+            placeholder={String(DEFAULT_KEEP_LAST_MESSAGES)}
+            onChange={e => onChange({ keepLastMessages: readPositiveInt(e.target.value) })}
+          />
+        </label>
+      )}
+      <label style={fieldLabelStyle}>
+        Concurrent generations
+        <input
+          style={fieldInputStyle}
+          type="number"
+          min={1}
+          value={provider.maxConcurrent ?? ''}
+          placeholder={String(DEFAULT_MAX_CONCURRENT)}
+          onChange={e => onChange({ maxConcurrent: readPositiveInt(e.target.value) })}
+        />
+      </label>
+      <label style={fieldLabelStyle}>
+        Default parameters
+        <textarea
+          style={{ ...fieldInputStyle, fontFamily: 'monospace', height: 160, resize: 'vertical' }}
+          value={paramsText}
+          onChange={e => setParamsText(e.target.value)}
+          onBlur={commitParams}
+        />
+      </label>
+      {paramsError && <div style={{ color: '#DC2626', fontSize: 12 }}>{paramsError}</div>}
+    </>
+  );
+}
+
+export default function ProviderSettingsPanel({ onClose }: { onClose: () => void }) {
+  const settings = useProviderSettings();
+  const [editingId, setEditingId] = useState(settings.activeId);
+  const provider = settings.providers.find(p => p.id === editingId) ?? settings.providers[0];
+
+  const updateProvider = (patch: Partial<Provider>) => {
+    setProviderSettings({
+      ...settings,
+      providers: settings.providers.map(p => (p.id === provider.id ? { ...p, ...patch } : p)),
+    });
+  };
+
+  const addProvider = () => {
+    const created = createProvider('openai');
+    setProviderSettings({ ...settings, providers: [...settings.providers, created] });
+    setEditingId(created.id);
+  };
+
+  const removeProvider = () => {
+    if (settings.providers.length === 1) return;
+    const providers = settings.providers.filter(p => p.id !== provider.id);
+    setProviderSettings({
+      providers,
+      activeId: settings.activeId === provider.id ? providers[0].id : settings.activeId,
+    });
+    setEditingId(providers[0].id);
+  };
+
+  return (
+    <div style={panelStyle} onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <strong style={{ flex: 1 }}>Providers</strong>
+        <button onClick={onClose} style={smallButtonStyle}>Close</button>
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginBottom: 8 }}>
+        {settings.providers.map(p => (
+          <button
+            key={p.id}
+            onClick={() => setEditingId(p.id)}
+            style={{
+              ...smallButtonStyle,
+              border: `1px solid ${p.id === provider.id ? '#6366F1' : '#E5E7EB'}`,
+              borderRadius: 4,
+              padding: '2px 6px',
+              color: '#0F172A',
+            }}
+          >
+            {p.id === settings.activeId ? '● ' : ''}{p.name || 'Untitled'}
+          </button>
+        ))}
+        <button onClick={addProvider} style={smallButtonStyle}>+ Add</button>
+      </div>
+      <ProviderForm key={provider.id} provider={provider} onChange={updateProvider} />
+      <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+        <button
+          onClick={() => setProviderSettings({ ...settings, activeId: provider.id })}
+          disabled={provider.id === settings.activeId}
+          style={smallButtonStyle}
+        >
+          {provider.id === settings.activeId ? 'Used for new generations' : 'Use for new generations'}
+        </button>
+        <button onClick={removeProvider} disabled={settings.providers.length === 1} style={smallButtonStyle}>Remove</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import type { PromptTemplate } from './promptTemplates';
+import { fieldInputStyle, highlightOnHover, menuItemStyle } from './styles';
+
+type Props = {
+  x: number; // screen position next to the selection
+  y: number;
+  templates: PromptTemplate[];
+  onPick: (template: PromptTemplate) => void;
+  onAsk: (question: string) => void;
+  onClose: () => void;
+};
+
+// Quick actions for text selected in a response. Templates run from their
+// shortcut key or 1–9 while the list has focus; the box sends a question of
+// its own.
+export default function SelectionActions({ x, y, templates, onPick, onAsk, onClose }: Props) {
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const [question, setQuestion] = useState('');
+
+  useEffect(() => {
+    rootRef.current?.focus();
+  }, []);
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      onClose();
+      return;
+    }
+    if (e.target !== rootRef.current || e.metaKey || e.ctrlKey || e.altKey) return;
+    const key = e.key.toLowerCase();
+    const template = /^[1-9]$/.test(key)
+      ? templates[Number(key) - 1]
+      : templates.find(t => t.shortcut?.toLowerCase() === key);
+    if (template) {
+      e.preventDefault();
+      onPick(template);
+    }
+  };
+
+  return (
+    <div
+      ref={rootRef}
+      tabIndex={-1}
+      onKeyDown={onKeyDown}
+      onMouseDown={e => e.stopPropagation()}
+      onWheel={e => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        left: x,
+        top: y,
+        zIndex: 5,
+        width: 260,
+        background: 'white',
+        border: '1px solid #A0A0A0',
+        borderRadius: 4,
+        padding: '4px 0',
+        outline: 'none',
+        font: '14px system-ui, sans-serif',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.08)',
+      }}
+    >
+      {templates.map((template, i) => (
+        <button key={template.id} onClick={() => onPick(template)} style={{ ...menuItemStyle, display: 'flex' }} {...highlightOnHover}>
+          <span style={{ flex: 1 }}>{template.name}</span>
+          <span style={{ color: '#9CA3AF', fontSize: 12 }}>{template.shortcut?.toUpperCase() ?? (i < 9 ? i + 1 : '')}</span>
+        </button>
+      ))}
+      <div style={{ padding: '4px 8px 4px' }}>
+        <input
+          style={fieldInputStyle}
+          value={question}
+          placeholder="Ask something else…"
+          onChange={e => setQuestion(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && question.trim() !== '') onAsk(question.trim());
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { fieldInputStyle, fieldLabelStyle, panelStyle, smallButtonStyle } from './styles';
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  onClose: () => void;
+};
+
+export default function SystemPromptPanel({ value, onChange, onClose }: Props) {
+  return (
+    <div style={panelStyle} onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <strong style={{ flex: 1 }}>System Prompt</strong>
+        <button onClick={onClose} style={smallButtonStyle}>Close</button>
+      </div>
+      <div style={{ color: '#64748B', fontSize: 12, marginBottom: 8 }}>
+        Sent first for every branch in this workspace that doesn't start with its own system prompt node.
+      </div>
+      <label style={fieldLabelStyle}>
+        Default system prompt
+        <textarea
+          style={{ ...fieldInputStyle, height: 200, resize: 'vertical' }}
+          value={value}
+          placeholder="None"
+          onChange={e => onChange(e.target.value)}
+        />
+      </label>
+    </div>
+  );
+}
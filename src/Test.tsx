@@ -3,6 +3,9 @@ import ReactMarkdown from 'react-markdown';
 import styled from 'styled-components';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { downloadFile } from './files';
+import { streamChatCompletion } from './completionClient';
+import { getActiveProvider } from './providers';
 
 const ChatContainer = styled.div`
   display: flex;
@@ -80,6 +83,15 @@ const SendButton = styled.button`
   }
 `;
 
+const SaveButton = styled(SendButton)`
+  margin-left: 10px;
+  background-color: #6c757d;
+
+  &:hover {
+    background-color: #545b62;
+  }
+`;
+
 const LoadingIndicator = styled.div`
   display: inline-block;
   width: 24px;
@@ -107,88 +119,23 @@ export default function Test() {
     setMessages(prev => [...prev, userMessage, { role: 'assistant_temp', content: '' }]);
     setInput('');
 
-    const payload = {
-      messages: [...messages, userMessage],
-
-      stream: true,
-      cache_prompt: true,
-
-      samplers: 'edkypmxt',
-      temperature: 0.8,
-      dynatemp_range: 0,
-      dynatemp_exponent: 1,
-
-      top_k: 40,
-      top_p: 0.95,
-      min_p: 0.05,
-      typical_p: 1,
-
-      xtc_probability: 0,
-      xtc_threshold: 0.1,
-
-      repeat_last_n: 64,
-      repeat_penalty: 1,
-      presence_penalty: 0,
-      frequency_penalty: 0,
-
-      dry_multiplier: 0,
-      dry_base: 1.75,
-      dry_allowed_length: 2,
-      dry_penalty_last_n: -1,
-
-      max_tokens: -1,
-      timings_per_token: false
-    };
+    const history = [...messages, userMessage]
+      .filter((m): m is MessageType & { role: 'user' | 'assistant' } => m.role === 'user' || m.role === 'assistant');
 
     try {
-      const response = await fetch('http://127.0.0.1:8080/v1/chat/completions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
+      const result = await streamChatCompletion(getActiveProvider(), history, {
+        onText: assistantText => {
+          setMessages(prev => [
+            ...prev.filter(m => m.role !== 'assistant_temp'),
+            { role: 'assistant_temp', content: assistantText }
+          ]);
+        },
       });
 
-      if (!response.ok) {
-        throw new Error('Network response was not ok');
-      }
-
-      const reader = response.body!.getReader();
-      const decoder = new TextDecoder('utf-8');
-      let assistantText = '';
-
-      while (true) {
-
-        const { value, done } = await reader.read();
-
-        if (done) {
-          break;
-        }
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.startsWith('data: '));
-
-        for (const line of lines) {
-          
-          const payload = line.replace(/^data: /, '');    
-          if (payload === '[DONE]') continue;
-          
-          const parsed = JSON.parse(payload);
-          const content = parsed.choices[0].delta.content;
-          
-          if (content) {
-            assistantText += content;
-            setMessages(prev => [
-              ...prev.filter(m => m.role !== 'assistant_temp'),
-              { role: 'assistant_temp', content: assistantText }
-            ]);
-          }
-          if (parsed.choices[0].finish_reason === 'stop') {
-            setMessages(prev => [
-              ...prev.filter(m => m.role !== 'assistant_temp'),
-              { role: 'assistant', content: assistantText }
-            ]);
-          }
-        }
-      }
+      setMessages(prev => [
+        ...prev.filter(m => m.role !== 'assistant_temp'),
+        { role: 'assistant', content: result.text }
+      ]);
     } catch (error) {
       console.error('Error fetching completion:', error);
       const errorMessage: MessageType = { role: 'system', content: 'Error fetching response from the model.' };
@@ -196,6 +143,12 @@ export default function Test() {
     }
   };
 
+  // Saved logs can be loaded into the graph with "Import Chat".
+  const handleSaveLog = () => {
+    const log = messages.filter(m => m.role === 'user' || m.role === 'assistant');
+    downloadFile('chat-log.json', JSON.stringify(log, null, 2), 'application/json');
+  };
+
   return (
     <ChatContainer>
       <MessageList>
@@ -236,6 +189,7 @@ export default function Test() {
           placeholder='Type your message...'
         />
         <SendButton type='submit'>Send</SendButton>
+        <SaveButton type='button' onClick={handleSaveLog}>Save Log</SaveButton>
       </InputArea>
     </ChatContainer>
   );
@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react';
+import { highlightOnHover, menuItemStyle, toolbarButtonStyle } from './styles';
+
+type Props = {
+  label: string;
+  items: { label: string; onSelect: () => void }[];
+};
+
+export default function ToolbarMenu({ label, items }: Props) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as globalThis.Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside, true);
+    return () => document.removeEventListener('mousedown', handleClickOutside, true);
+  }, [open]);
+
+  return (
+    <div ref={rootRef} style={{ position: 'relative' }} onMouseDown={e => e.stopPropagation()}>
+      <button onClick={() => setOpen(o => !o)} style={toolbarButtonStyle}>
+        {label} ▾
+      </button>
+      {open && (
+        <div style={{ position: 'absolute', left: 0, top: 'calc(100% + 4px)', minWidth: 200, background: 'white', border: '1px solid #A0A0A0', padding: 0 }}>
+          {items.map(item => (
+            <button
+              key={item.label}
+              onClick={() => {
+                setOpen(false);
+                item.onSelect();
+              }}
+              style={menuItemStyle}
+              {...highlightOnHover}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
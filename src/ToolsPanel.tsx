@@ -0,0 +1,66 @@
+import { listTools } from './tools';
+import type { WorkspaceNote } from './tools';
+import { fieldInputStyle, fieldLabelStyle, panelStyle, smallButtonStyle } from './styles';
+
+type Props = {
+  enabled: string[];
+  notes: WorkspaceNote[];
+  onChangeEnabled: (names: string[]) => void;
+  onChangeNotes: (notes: WorkspaceNote[]) => void;
+  onClose: () => void;
+};
+
+export default function ToolsPanel({ enabled, notes, onChangeEnabled, onChangeNotes, onClose }: Props) {
+  const toggle = (name: string) =>
+    onChangeEnabled(enabled.includes(name) ? enabled.filter(n => n !== name) : [...enabled, name]);
+
+  const updateNote = (index: number, patch: Partial<WorkspaceNote>) =>
+    onChangeNotes(notes.map((note, i) => (i === index ? { ...note, ...patch } : note)));
+
+  return (
+    <div style={panelStyle} onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <strong style={{ flex: 1 }}>Tools</strong>
+        <button onClick={onClose} style={smallButtonStyle}>Close</button>
+      </div>
+      <div style={{ color: '#64748B', fontSize: 12, marginBottom: 8 }}>
+        Checked tools are offered to the model in this workspace. Each call it makes, and its result, appears as a node before the model answers.
+      </div>
+      {listTools().map(tool => (
+        <label key={tool.name} style={{ display: 'flex', alignItems: 'flex-start', gap: 6, marginBottom: 6 }}>
+          <input type="checkbox" checked={enabled.includes(tool.name)} onChange={() => toggle(tool.name)} />
+          <span>
+            <code>{tool.name}</code>
+            <div style={{ color: '#64748B', fontSize: 12 }}>{tool.description}</div>
+          </span>
+        </label>
+      ))}
+      <div style={{ display: 'flex', alignItems: 'center', margin: '12px 0 4px' }}>
+        <strong style={{ flex: 1 }}>Notes</strong>
+        <button onClick={() => onChangeNotes([...notes, { name: `Note ${notes.length + 1}`, text: '' }])} style={smallButtonStyle}>
+          Add note
+        </button>
+      </div>
+      <div style={{ color: '#64748B', fontSize: 12, marginBottom: 8 }}>Readable with the read_note tool.</div>
+      {notes.map((note, i) => (
+        <div key={i} style={{ borderTop: '1px solid #E5E7EB', paddingTop: 8, marginBottom: 8 }}>
+          <label style={fieldLabelStyle}>
+            Name
+            <input style={fieldInputStyle} value={note.name} onChange={e => updateNote(i, { name: e.target.value })} />
+          </label>
+          <label style={fieldLabelStyle}>
+            Text
+            <textarea
+              style={{ ...fieldInputStyle, height: 100, resize: 'vertical' }}
+              value={note.text}
+              onChange={e => updateNote(i, { text: e.target.value })}
+            />
+          </label>
+          <button onClick={() => onChangeNotes(notes.filter((_, j) => j !== i))} style={{ ...smallButtonStyle, color: '#DC2626' }}>
+            Remove
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
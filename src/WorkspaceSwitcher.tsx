@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import type { WorkspaceId, WorkspaceMeta } from './storage';
+import { highlightOnHover, menuItemStyle, smallButtonStyle, toolbarButtonStyle } from './styles';
+
+type Props = {
+  workspaces: WorkspaceMeta[];
+  currentId: WorkspaceId | null;
+  onSelect: (id: WorkspaceId) => void;
+  onCreate: () => void;
+  onRename: (id: WorkspaceId, name: string) => void;
+  onDuplicate: (id: WorkspaceId) => void;
+  onDelete: (id: WorkspaceId) => void;
+};
+
+export default function WorkspaceSwitcher({ workspaces, currentId, onSelect, onCreate, onRename, onDuplicate, onDelete }: Props) {
+  const [open, setOpen] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: WorkspaceId; value: string } | null>(null);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as globalThis.Node)) {
+        setOpen(false);
+        setRenaming(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside, true);
+    return () => document.removeEventListener('mousedown', handleClickOutside, true);
+  }, [open]);
+
+  const current = workspaces.find(w => w.id === currentId);
+
+  const commitRename = () => {
+    if (renaming && renaming.value.trim() !== '') {
+      onRename(renaming.id, renaming.value.trim());
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <div ref={rootRef} style={{ position: 'relative' }} onMouseDown={e => e.stopPropagation()}>
+      <button onClick={() => setOpen(o => !o)} style={toolbarButtonStyle}>
+        {current?.name ?? 'Workspaces'} ▾
+      </button>
+      {open && (
+        <div style={{ position: 'absolute', left: 0, top: 'calc(100% + 4px)', minWidth: 260, background: 'white', border: '1px solid #A0A0A0', padding: '4px 0' }}>
+          {workspaces.map(w => (
+            <div
+              key={w.id}
+              style={{ display: 'flex', alignItems: 'center', paddingRight: 8, background: w.id === currentId ? '#EEF2FF' : 'transparent' }}
+            >
+              {renaming?.id === w.id ? (
+                <input
+                  autoFocus
+                  value={renaming.value}
+                  onChange={e => setRenaming({ id: w.id, value: e.target.value })}
+                  onKeyDown={e => {
+                    e.stopPropagation();
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  onBlur={commitRename}
+                  style={{ flex: 1, margin: '2px 8px 2px 16px', font: '14px system-ui, sans-serif' }}
+                />
+              ) : (
+                <button
+                  onClick={() => {
+                    onSelect(w.id);
+                    setOpen(false);
+                  }}
+                  style={{ ...menuItemStyle, flex: 1 }}
+                  {...highlightOnHover}
+                >
+                  {w.name}
+                </button>
+              )}
+              <button onClick={() => setRenaming({ id: w.id, value: w.name })} style={smallButtonStyle}>Rename</button>
+              <button onClick={() => onDuplicate(w.id)} style={smallButtonStyle}>Duplicate</button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete workspace "${w.name}"?`)) onDelete(w.id);
+                }}
+                style={smallButtonStyle}
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+          <div style={{ borderTop: '1px solid #E5E7EB', marginTop: 4, paddingTop: 4 }}>
+            <button
+              onClick={() => {
+                onCreate();
+                setOpen(false);
+              }}
+              style={menuItemStyle}
+              {...highlightOnHover}
+            >
+              New Workspace
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import { getLatestLeaf, getRootId } from './navigation';
+import type { Direction } from './navigation';
+import { hasCheckpointAbove, hasPrompt, isCheckpointReady, isEditable } from './scene';
+import type { Node, NodeId, Scene } from './scene';
+import { isGenerating } from './undoHistory';
+
+export type ActionPanel = 'system' | 'templates' | 'tools' | 'inspector' | 'providers' | 'activity';
+
+// What the graph lets actions do. ConversationGraph provides these.
+export type GraphCommands = {
+  undo: () => void;
+  redo: () => void;
+  addNode: (author: 'user' | 'system') => void;
+  resetView: () => void;
+  stopAll: () => void;
+  importScene: () => void;
+  importChatLogs: () => void;
+  exportScene: () => void;
+  exportTree: () => void;
+  togglePanel: (panel: ActionPanel) => void;
+  navigate: (direction: Direction) => void;
+  reveal: (nodeId: NodeId) => void;
+  clearSelection: () => void;
+  generate: (nodeId: NodeId) => void;
+  generateWithFullHistory: (nodeId: NodeId) => void;
+  generateVariants: (nodeId: NodeId) => void;
+  compareModels: (nodeId: NodeId) => void;
+  regenerate: (nodeId: NodeId) => void;
+  halt: (nodeId: NodeId) => void;
+  reply: (nodeId: NodeId) => void;
+  edit: (nodeId: NodeId) => void;
+  insertSystemPromptAbove: (nodeId: NodeId) => void;
+  createCheckpoint: (nodeId: NodeId) => void;
+  togglePreferred: (nodeId: NodeId) => void;
+  toggleMerge: (nodeId: NodeId) => void;
+  mergeInto: (nodeId: NodeId) => void;
+  deleteNodes: (nodeIds: NodeId[]) => void;
+  copyBranch: (nodeId: NodeId) => void;
+  exportBranch: (nodeId: NodeId, format: 'markdown' | 'text') => void;
+};
+
+// `nodeId` is the node an action targets: the one right-clicked, or the
+// selected one from the keyboard and the palette.
+export type ActionContext = {
+  nodeId: NodeId | null;
+  selectedIds: NodeId[];
+  scene: Scene;
+  mergeIds: NodeId[];
+  streamingIds: NodeId[];
+  commands: GraphCommands;
+};
+
+export type GraphAction = {
+  id: string;
+  label: string | ((context: ActionContext) => string);
+  // 'node' actions need a target node; 'selection' ones take every selected
+  // node when the target is part of the selection.
+  scope: 'graph' | 'node' | 'selection';
+  shortcuts?: string[]; // like 'Mod+Shift+Z', where Mod is Ctrl or Cmd; the first is shown
+  contextMenu?: boolean; // also listed in the right-click menu
+  isAvailable?: (context: ActionContext) => boolean;
+  run: (context: ActionContext) => void;
+};
+
+const targetNode = ({ nodeId, scene }: ActionContext): Node | undefined => (nodeId ? scene.nodes[nodeId] : undefined);
+
+export const getTargetIds = ({ nodeId, selectedIds }: ActionContext) =>
+  nodeId && !selectedIds.includes(nodeId) ? [nodeId] : selectedIds;
+
+// The generation a node's Halt stops: its own, or that of a response below it.
+const haltTarget = ({ nodeId, scene, streamingIds }: ActionContext) =>
+  streamingIds.find(id => id === nodeId || scene.nodes[id]?.parentId === nodeId);
+
+const isResponse = (context: ActionContext) => {
+  const node = targetNode(context);
+  return node?.author === 'llm' && !!node.parentId;
+};
+
+// Listed in the order the right-click menu shows them.
+const BUILT_IN_ACTIONS: GraphAction[] = [
+  { id: 'add-node', label: 'Add Node', scope: 'graph', contextMenu: true, run: ({ commands }) => commands.addNode('user') },
+  { id: 'add-system-prompt', label: 'Add System Prompt', scope: 'graph', contextMenu: true, run: ({ commands }) => commands.addNode('system') },
+  {
+    id: 'generate',
+    label: 'Generate Response',
+    scope: 'node',
+    shortcuts: ['Space'],
+    contextMenu: true,
+    isAvailable: context => hasPrompt(targetNode(context)) && !haltTarget(context),
+    run: ({ nodeId, commands }) => commands.generate(nodeId!),
+  },
+  {
+    id: 'reply',
+    label: 'Reply',
+    scope: 'node',
+    shortcuts: ['R', 'Space'],
+    contextMenu: true,
+    isAvailable: context => {
+      const node = targetNode(context);
+      return !!node && node.author !== 'user' && !isGenerating(node) && (!node.checkpoint || isCheckpointReady(node));
+    },
+    run: ({ nodeId, commands }) => commands.reply(nodeId!),
+  },
+  {
+    id: 'halt',
+    label: 'Halt Generation',
+    scope: 'node',
+    contextMenu: true,
+    isAvailable: context => !!haltTarget(context),
+    run: context => context.commands.halt(haltTarget(context)!),
+  },
+  {
+    id: 'edit',
+    label: 'Edit Node',
+    scope: 'node',
+    shortcuts: ['Enter'],
+    isAvailable: context => isEditable(targetNode(context)),
+    run: ({ nodeId, commands }) => commands.edit(nodeId!),
+  },
+  {
+    id: 'toggle-merge',
+    label: ({ nodeId, mergeIds }) => (mergeIds.includes(nodeId!) ? 'Remove from Merge' : 'Add to Merge'),
+    scope: 'node',
+    contextMenu: true,
+    run: ({ nodeId, commands }) => commands.toggleMerge(nodeId!),
+  },
+  {
+    id: 'merge-into',
+    label: 'Merge Picked Branches Into This Node',
+    scope: 'node',
+    contextMenu: true,
+    isAvailable: context => context.mergeIds.some(id => id !== context.nodeId) && targetNode(context)?.author !== 'llm',
+    run: ({ nodeId, commands }) => commands.mergeInto(nodeId!),
+  },
+  {
+    id: 'insert-system-prompt-above',
+    label: 'Insert System Prompt Above',
+    scope: 'node',
+    contextMenu: true,
+    run: ({ nodeId, commands }) => commands.insertSystemPromptAbove(nodeId!),
+  },
+  {
+    id: 'create-checkpoint',
+    label: 'Create Checkpoint',
+    scope: 'node',
+    contextMenu: true,
+    isAvailable: context => !!targetNode(context)?.text.trim(),
+    run: ({ nodeId, commands }) => commands.createCheckpoint(nodeId!),
+  },
+  {
+    id: 'generate-variants',
+    label: 'Generate Variants…',
+    scope: 'node',
+    contextMenu: true,
+    isAvailable: context => hasPrompt(targetNode(context)),
+    run: ({ nodeId, commands }) => commands.generateVariants(nodeId!),
+  },
+  {
+    id: 'compare-models',
+    label: 'Compare Models…',
+    scope: 'node',
+    contextMenu: true,
+    isAvailable: context => hasPrompt(targetNode(context)),
+    run: ({ nodeId, commands }) => commands.compareModels(nodeId!),
+  },
+  {
+    id: 'generate-full-history',
+    label: 'Generate with Full History',
+    scope: 'node',
+    contextMenu: true,
+    isAvailable: context => hasPrompt(targetNode(context)) && hasCheckpointAbove(context.nodeId!, context.scene.nodes),
+    run: ({ nodeId, commands }) => commands.generateWithFullHistory(nodeId!),
+  },
+  { id: 'regenerate', label: 'Regenerate', scope: 'node', contextMenu: true, isAvailable: isResponse, run: ({ nodeId, commands }) => commands.regenerate(nodeId!) },
+  {
+    id: 'toggle-preferred',
+    label: context => (targetNode(context)?.preferred ? 'Unmark Preferred' : 'Mark as Preferred'),
+    scope: 'node',
+    contextMenu: true,
+    isAvailable: isResponse,
+    run: ({ nodeId, commands }) => commands.togglePreferred(nodeId!),
+  },
+  {
+    id: 'delete',
+    label: context => (getTargetIds(context).length > 1 ? `Delete ${getTargetIds(context).length} Nodes` : 'Delete Node'),
+    scope: 'selection',
+    shortcuts: ['Delete', 'Backspace'],
+    contextMenu: true,
+    run: context => context.commands.deleteNodes(getTargetIds(context)),
+  },
+  { id: 'copy-branch', label: 'Copy Branch as Markdown', scope: 'node', contextMenu: true, run: ({ nodeId, commands }) => commands.copyBranch(nodeId!) },
+  {
+    id: 'export-branch-markdown',
+    label: 'Export Branch as Markdown',
+    scope: 'node',
+    contextMenu: true,
+    run: ({ nodeId, commands }) => commands.exportBranch(nodeId!, 'markdown'),
+  },
+  {
+    id: 'export-branch-text',
+    label: 'Export Branch as Text',
+    scope: 'node',
+    contextMenu: true,
+    run: ({ nodeId, commands }) => commands.exportBranch(nodeId!, 'text'),
+  },
+  { id: 'export-tree', label: 'Export Tree as Markdown', scope: 'graph', contextMenu: true, run: ({ commands }) => commands.exportTree() },
+  { id: 'select-parent', label: 'Select Parent', scope: 'graph', shortcuts: ['ArrowUp'], run: ({ commands }) => commands.navigate('up') },
+  { id: 'select-child', label: 'Select First Child', scope: 'graph', shortcuts: ['ArrowDown'], run: ({ commands }) => commands.navigate('down') },
+  { id: 'select-previous-sibling', label: 'Select Previous Sibling', scope: 'graph', shortcuts: ['ArrowLeft'], run: ({ commands }) => commands.navigate('left') },
+  { id: 'select-next-sibling', label: 'Select Next Sibling', scope: 'graph', shortcuts: ['ArrowRight'], run: ({ commands }) => commands.navigate('right') },
+  {
+    id: 'select-root',
+    label: 'Select Root',
+    scope: 'node',
+    shortcuts: ['Home'],
+    run: ({ nodeId, scene, commands }) => commands.reveal(getRootId(nodeId!, scene.nodes)),
+  },
+  {
+    id: 'select-latest-leaf',
+    label: 'Select Latest Leaf',
+    scope: 'node',
+    shortcuts: ['End'],
+    run: ({ nodeId, scene, commands }) => commands.reveal(getLatestLeaf(nodeId!, scene.nodes)),
+  },
+  {
+    id: 'clear-selection',
+    label: 'Clear Selection',
+    scope: 'graph',
+    shortcuts: ['Escape'],
+    isAvailable: ({ selectedIds }) => selectedIds.length > 0,
+    run: ({ commands }) => commands.clearSelection(),
+  },
+  { id: 'undo', label: 'Undo', scope: 'graph', shortcuts: ['Mod+Z'], run: ({ commands }) => commands.undo() },
+  { id: 'redo', label: 'Redo', scope: 'graph', shortcuts: ['Mod+Shift+Z', 'Mod+Y'], run: ({ commands }) => commands.redo() },
+  { id: 'reset-view', label: 'Reset View', scope: 'graph', run: ({ commands }) => commands.resetView() },
+  {
+    id: 'stop-all',
+    label: 'Stop All Generations',
+    scope: 'graph',
+    isAvailable: ({ streamingIds }) => streamingIds.length > 0,
+    run: ({ commands }) => commands.stopAll(),
+  },
+  { id: 'export-scene', label: 'Export Workspace', scope: 'graph', run: ({ commands }) => commands.exportScene() },
+  { id: 'import-scene', label: 'Import Workspace', scope: 'graph', run: ({ commands }) => commands.importScene() },
+  { id: 'import-chat', label: 'Import Chat Logs', scope: 'graph', run: ({ commands }) => commands.importChatLogs() },
+  { id: 'panel-system', label: 'Toggle System Prompt Panel', scope: 'graph', run: ({ commands }) => commands.togglePanel('system') },
+  { id: 'panel-templates', label: 'Toggle Templates Panel', scope: 'graph', run: ({ commands }) => commands.togglePanel('templates') },
+  { id: 'panel-tools', label: 'Toggle Tools Panel', scope: 'graph', run: ({ commands }) => commands.togglePanel('tools') },
+  { id: 'panel-inspector', label: 'Toggle Inspector', scope: 'graph', run: ({ commands }) => commands.togglePanel('inspector') },
+  { id: 'panel-providers', label: 'Toggle Provider Settings', scope: 'graph', run: ({ commands }) => commands.togglePanel('providers') },
+  { id: 'panel-activity', label: 'Toggle Activity Panel', scope: 'graph', run: ({ commands }) => commands.togglePanel('activity') },
+];
+
+const registry = new Map<string, GraphAction>(BUILT_IN_ACTIONS.map(action => [action.id, action]));
+
+export const registerAction = (action: GraphAction) => {
+  registry.set(action.id, action);
+};
+
+export const listActions = () => [...registry.values()];
+
+export const getActionLabel = (action: GraphAction, context: ActionContext) =>
+  typeof action.label === 'string' ? action.label : action.label(context);
+
+export const isActionAvailable = (action: GraphAction, context: ActionContext) => {
+  if (action.scope === 'node' && !targetNode(context)) return false;
+  if (action.scope === 'selection' && getTargetIds(context).length === 0) return false;
+  return action.isAvailable?.(context) ?? true;
+};
+
+export const matchesShortcut = (shortcut: string, e: KeyboardEvent) => {
+  const parts = shortcut.split('+');
+  const key = e.key === ' ' ? 'Space' : e.key;
+  return key.toLowerCase() === parts[parts.length - 1].toLowerCase()
+    && parts.includes('Mod') === (e.ctrlKey || e.metaKey)
+    && parts.includes('Shift') === e.shiftKey
+    && parts.includes('Alt') === e.altKey;
+};
+
+// Several actions can share a key, like Space, as long as only one of them
+// applies to any node.
+export const findShortcutAction = (e: KeyboardEvent, context: ActionContext) =>
+  listActions().find(action => action.shortcuts?.some(shortcut => matchesShortcut(shortcut, e)) && isActionAvailable(action, context));
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_LABELS: Record<string, string> = {
+  Mod: IS_MAC ? '⌘' : 'Ctrl',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Delete: 'Del',
+};
+
+export const formatShortcut = (shortcut: string) => shortcut.split('+').map(part => KEY_LABELS[part] ?? part).join('+');
+
+// Every character of `query` has to appear in `text` in order. Adjacent
+// matches and matches at the start of a word score higher; null means no match.
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let last = -2;
+  for (const char of query.toLowerCase().replace(/\s+/g, '')) {
+    const index = haystack.indexOf(char, last + 1);
+    if (index === -1) return null;
+    score += index === last + 1 ? 3 : index === 0 || haystack[index - 1] === ' ' ? 2 : 1;
+    last = index;
+  }
+  return score;
+};
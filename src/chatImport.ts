@@ -0,0 +1,147 @@
+import { uid } from './scene';
+import type { Edge, Node, NodeId, Scene } from './scene';
+import { COLUMN_GAP, ROW_GAP, estimateNodeSize, getBounds, getChildren, layoutSubtree } from './layout';
+
+export type LogMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+type ParsedLogs = { logs: LogMessage[][]; issues: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMessage = (value: unknown) => isRecord(value) && typeof value.role === 'string' && 'content' in value;
+
+// OpenAI-style content may be a string or a list of typed parts.
+const readContent = (content: unknown) => {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (isRecord(part) && part.type === 'text' && typeof part.text === 'string' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n\n');
+  }
+  return '';
+};
+
+const readLog = (raw: unknown[], logIndex: number, issues: string[]): LogMessage[] => {
+  const log: LogMessage[] = [];
+  raw.forEach((message, i) => {
+    if (!isMessage(message)) {
+      issues.push(`Log ${logIndex + 1}: skipped entry ${i + 1}, not a { role, content } message`);
+      return;
+    }
+    const { role } = message as { role: string };
+    const content = readContent((message as { content: unknown }).content);
+    if (role === 'user' || role === 'system') {
+      log.push({ role, content });
+    } else if (role === 'assistant' || role === 'assistant_temp') {
+      log.push({ role: 'assistant', content });
+    } else {
+      issues.push(`Log ${logIndex + 1}: skipped message ${i + 1} with role "${role}"`);
+    }
+  });
+  return log;
+};
+
+const toRawLogs = (data: unknown): unknown[][] => {
+  if (isRecord(data) && Array.isArray(data.messages)) return [data.messages];
+  if (!Array.isArray(data)) return [];
+  if (data.every(isMessage)) return [data];
+  return data.flatMap(toRawLogs);
+};
+
+// Accepts a single `{ role, content }[]` log, an array of logs, objects with a
+// `messages` array, or JSON Lines with one log per line.
+export const parseChatLogs = (text: string): ParsedLogs => {
+  let values: unknown[];
+  try {
+    values = [JSON.parse(text)];
+  } catch {
+    try {
+      values = text.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line));
+    } catch {
+      throw new Error('Chat log is neither JSON nor JSON Lines');
+    }
+  }
+  const issues: string[] = [];
+  const logs = values
+    .flatMap(toRawLogs)
+    .map((raw, i) => readLog(raw, i, issues))
+    .filter(log => log.length > 0);
+  if (logs.length === 0) throw new Error('No { role, content } messages found');
+  return { logs, issues };
+};
+
+const AUTHORS: Record<LogMessage['role'], Node['author']> = {
+  system: 'system',
+  user: 'user',
+  assistant: 'llm',
+};
+
+const toNodeFields = (message: LogMessage): Pick<Node, 'author' | 'text'> => ({
+  author: AUTHORS[message.role],
+  text: message.content,
+});
+
+// Adds each log as a chain of nodes, reusing any existing node with the same
+// author and text at the same position so shared prefixes become one path.
+export const mergeChatLogs = (scene: Scene, logs: LogMessage[][]): { scene: Scene; added: NodeId[] } => {
+  const nodes: Record<NodeId, Node> = { ...scene.nodes };
+  const edges: Edge[] = [...scene.edges];
+  const children = getChildren(nodes);
+  const roots = Object.values(nodes).filter(n => !n.parentId).map(n => n.id);
+  const added: NodeId[] = [];
+
+  logs.forEach(log => {
+    let parentId: NodeId | undefined;
+    log.forEach(message => {
+      const { author, text } = toNodeFields(message);
+      const siblings = parentId ? children[parentId] ?? [] : roots;
+      const match = siblings.find(id => nodes[id].author === author && nodes[id].text === text);
+      if (match) {
+        parentId = match;
+        return;
+      }
+      const id = uid();
+      nodes[id] = { id, x: 0, y: 0, ...estimateNodeSize(text), text, author, parentId, createdAt: Date.now() };
+      if (parentId) {
+        edges.push({ from: parentId, to: id });
+        (children[parentId] ??= []).push(id);
+      } else {
+        roots.push(id);
+      }
+      added.push(id);
+      parentId = id;
+    });
+  });
+
+  const pending = new Set(added); // added nodes that still need a position
+  const placed = () => Object.values(nodes).filter(n => !pending.has(n.id));
+
+  added
+    .filter(id => !pending.has(nodes[id].parentId ?? ''))
+    .forEach(id => {
+      const parent = nodes[id].parentId ? nodes[nodes[id].parentId!] : undefined;
+      const descendants = (rootId: NodeId): Node[] =>
+        (children[rootId] ?? []).filter(c => !pending.has(c)).flatMap(c => [nodes[c], ...descendants(c)]);
+      let x: number;
+      let y: number;
+      if (parent) {
+        const bounds = getBounds(descendants(parent.id));
+        x = bounds ? bounds.maxX + COLUMN_GAP : parent.x;
+        y = parent.y + parent.h + ROW_GAP;
+      } else {
+        const bounds = getBounds(placed());
+        x = bounds ? bounds.maxX + COLUMN_GAP * 2 : 100;
+        y = bounds ? bounds.minY : 100;
+      }
+      layoutSubtree(nodes, children, id, x, y, childId => pending.has(childId));
+      const mark = (nodeId: NodeId) => {
+        pending.delete(nodeId);
+        (children[nodeId] ?? []).filter(c => pending.has(c)).forEach(mark);
+      };
+      mark(id);
+    });
+
+  return { scene: { ...scene, nodes, edges }, added };
+};
@@ -0,0 +1,74 @@
+import { getBounds, getChildren } from './layout';
+import { toPersistedScene, uid } from './scene';
+import type { Edge, Node, NodeId, Scene } from './scene';
+import { parseSceneFile, serializeScene } from './sceneFile';
+import { treeToMarkdown } from './transcript';
+
+// Copied nodes travel as a scene file under their own type, with a Markdown
+// outline as plain text for pasting anywhere else.
+export const NODES_MIME_TYPE = 'application/x-graph-bop-nodes';
+
+// The given nodes and everything below them.
+export const getSubtreeIds = (rootIds: NodeId[], nodes: Record<NodeId, Node>): NodeId[] => {
+  const children = getChildren(nodes);
+  const ids = new Set<NodeId>();
+  const visit = (id: NodeId) => {
+    if (ids.has(id) || !nodes[id]) return;
+    ids.add(id);
+    (children[id] ?? []).forEach(visit);
+  };
+  rootIds.forEach(visit);
+  return [...ids];
+};
+
+export const copyNodes = (nodeIds: NodeId[], scene: Scene, streamingIds: NodeId[]) => {
+  const ids = new Set(getSubtreeIds(nodeIds, scene.nodes));
+  const copied = toPersistedScene({
+    nodes: Object.fromEntries([...ids].map(id => [id, scene.nodes[id]])),
+    edges: scene.edges.filter(edge => ids.has(edge.from) && ids.has(edge.to)),
+  }, streamingIds);
+  return {
+    json: JSON.stringify(serializeScene(copied, { x: 0, y: 0, scale: 1 })),
+    markdown: treeToMarkdown(copied, 'Copied nodes'),
+  };
+};
+
+// The copied nodes and edges under fresh ids, with their top-left corner at
+// `at`. Parents outside the copy are dropped, so the copy's roots start new
+// conversations, or continue from `graftOnto` when given.
+export const pasteNodes = (json: string, at: { x: number; y: number }, graftOnto?: NodeId) => {
+  const { scene: copiedScene } = parseSceneFile(json);
+  const copied = Object.values(copiedScene.nodes);
+  const bounds = getBounds(copied);
+  if (!bounds) return null;
+
+  const ids: Record<NodeId, NodeId> = {};
+  copied.forEach(node => (ids[node.id] = uid()));
+  const dx = at.x - bounds.minX;
+  const dy = at.y - bounds.minY;
+
+  const nodes: Record<NodeId, Node> = {};
+  const edges: Edge[] = [];
+  const rootIds: NodeId[] = [];
+  copied.forEach(node => {
+    const id = ids[node.id];
+    const isRoot = !node.parentId;
+    if (isRoot) rootIds.push(id);
+    nodes[id] = {
+      ...node,
+      id,
+      x: node.x + dx,
+      y: node.y + dy,
+      parentId: isRoot ? graftOnto : ids[node.parentId!],
+      mergeParentIds: node.mergeParentIds?.map(parentId => ids[parentId]),
+      preferred: isRoot && graftOnto ? undefined : node.preferred,
+      createdAt: Date.now(),
+    };
+    if (isRoot && graftOnto) edges.push({ from: graftOnto, to: id });
+  });
+  copiedScene.edges.forEach(edge => {
+    edges.push({ ...edge, from: ids[edge.from], to: ids[edge.to] });
+  });
+
+  return { nodes, edges, rootIds };
+};
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CompletionError, streamChatCompletion, withRetry } from './completionClient';
+import type { Provider } from './providers';
+import { BUILT_IN_PRESETS } from './sampling';
+
+const provider: Provider = { id: 'p', name: 'Test', kind: 'openai', baseUrl: 'http://localhost', model: 'm', params: {} };
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+// A 200 response whose body sends `chunks` one read at a time, then fails
+// with `failure` if given.
+const response = (chunks: string[], failure?: Error) => {
+  const queue = [...chunks];
+  return new Response(new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = queue.shift();
+      if (chunk !== undefined) controller.enqueue(new TextEncoder().encode(chunk));
+      else if (failure) controller.error(failure);
+      else controller.close();
+    },
+  }));
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamChatCompletion', () => {
+  it('makes a connection lost mid-stream retryable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => response([delta('Hel')], new TypeError('network error'))));
+    const error = await streamChatCompletion(provider, [{ role: 'user', content: 'hi' }]).catch(e => e);
+    expect(error).toBeInstanceOf(CompletionError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('makes a transient error event retryable, but not other ones', async () => {
+    const errorEvent = (error: unknown) => `event: error\ndata: ${JSON.stringify({ error })}\n\n`;
+    vi.stubGlobal('fetch', vi.fn(async () => response([delta('Hel'), errorEvent({ message: 'overloaded', code: 503 })])));
+    expect(await streamChatCompletion(provider, []).catch(e => e.retryable)).toBe(true);
+    vi.stubGlobal('fetch', vi.fn(async () => response([errorEvent({ message: 'bad tool schema' })])));
+    expect(await streamChatCompletion(provider, []).catch(e => e.retryable)).toBe(false);
+  });
+
+  it('does not retry a malformed stream line', async () => {
+    const fetch = vi.fn(async () => response(['{"message":{"content":"Hel"}}\n', '{"message":\n']));
+    vi.stubGlobal('fetch', fetch);
+    const error = await withRetry(() => streamChatCompletion({ ...provider, kind: 'ollama' }, []), { baseDelayMs: 0 }).catch(e => e);
+    expect(error).toBeInstanceOf(CompletionError);
+    expect(error.message).toMatch(/^Malformed stream data/);
+    expect(error.retryable).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts the response over when retried after a mid-stream failure', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(response([delta('Hel')], new TypeError('network error')))
+      .mockResolvedValueOnce(response([delta('Hello'), delta('!'), 'data: [DONE]\n\n']));
+    vi.stubGlobal('fetch', fetch);
+    const seen: string[] = [];
+    const onRetry = vi.fn(() => seen.push(''));
+    const result = await withRetry(
+      () => streamChatCompletion(provider, [], { onText: text => seen.push(text) }),
+      { baseDelayMs: 0, onRetry },
+    );
+    expect(result.text).toBe('Hello!');
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(seen).toEqual(['Hel', '', 'Hello', 'Hello!']);
+  });
+});
+
+describe('request parameters', () => {
+  const params = { ...BUILT_IN_PRESETS.find(p => p.id === 'creative')!.params, max_tokens: 256 };
+
+  // The JSON body of the one request sent to a provider of `kind`.
+  const sentBody = async (kind: Provider['kind'], done: string) => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => response([done]));
+    vi.stubGlobal('fetch', fetch);
+    await streamChatCompletion({ ...provider, kind }, [], { params });
+    return JSON.parse(fetch.mock.calls[0][1]?.body as string) as Record<string, unknown>;
+  };
+
+  it('sends everything to llama.cpp', async () => {
+    expect(await sentBody('llama.cpp', 'data: [DONE]\n\n')).toMatchObject(params);
+  });
+
+  it('leaves out parameters OpenAI would reject', async () => {
+    const body = await sentBody('openai', 'data: [DONE]\n\n');
+    expect(body).toMatchObject({ temperature: 1.1, top_p: 0.98, max_tokens: 256 });
+    ['top_k', 'min_p', 'xtc_probability', 'xtc_threshold', 'dry_multiplier'].forEach(key => expect(body).not.toHaveProperty(key));
+  });
+
+  it('renames options for Ollama and drops the ones it lacks', async () => {
+    const { options } = await sentBody('ollama', '{"done":true}\n');
+    expect(options).toEqual({ temperature: 1.1, top_k: 100, top_p: 0.98, min_p: 0.02, num_predict: 256 });
+  });
+});
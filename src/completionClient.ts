@@ -0,0 +1,391 @@
+import { getMessageImages, getMessageText } from './scene';
+import type { ChatMessage, ToolCall } from './scene';
+import type { Provider } from './providers';
+import type { ToolSpec } from './tools';
+import { readNdjson, readSseEvents } from './streamParser';
+
+// Whatever the server reports about a finished generation; fields it doesn't
+// send stay unset.
+export type GenerationStats = {
+  finishReason?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensPerSecond?: number;
+  timeToFirstTokenMs?: number; // measured here, so it includes network time
+};
+
+export const formatDuration = (ms: number) => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+export type CompletionResult = {
+  text: string;
+  finishReason: string | null;
+  model?: string;
+  toolCalls: ToolCall[]; // the model wants these run before it answers
+  stats: GenerationStats;
+  durationMs: number; // wall clock, request to last chunk
+};
+
+type StreamOptions = {
+  params?: Record<string, unknown>; // replaces the provider's default parameters
+  tools?: ToolSpec[];
+  signal?: AbortSignal;
+  onText?: (text: string) => void; // called with the full text so far
+};
+
+// Failed requests carry the HTTP status when there was a response, and whether
+// trying again later could plausibly succeed.
+export class CompletionError extends Error {
+  status?: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+
+  constructor(message: string, { status, retryable = false, retryAfterMs }: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'CompletionError';
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+const readRetryAfter = (header: string | null) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const buildHeaders = (provider: Provider) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (provider.apiKey) {
+    if (provider.apiKeyHeader) headers[provider.apiKeyHeader] = provider.apiKey;
+    else headers.Authorization = `Bearer ${provider.apiKey}`;
+  }
+  return headers;
+};
+
+const parseArguments = (json: string) => {
+  try {
+    return JSON.parse(json) as unknown;
+  } catch {
+    return {};
+  }
+};
+
+// Ollama wants tool arguments as an object, OpenAI-style servers as a JSON
+// string. Ollama also takes images as bare base64 beside plain-text content.
+const toWireMessage = (message: ChatMessage, kind: Provider['kind']) => {
+  const wire: Record<string, unknown> = { ...message };
+  if (kind === 'ollama' && typeof message.content !== 'string') {
+    wire.content = getMessageText(message);
+    wire.images = getMessageImages(message).map(url => url.slice(url.indexOf(',') + 1));
+  }
+  if (message.tool_calls) {
+    wire.tool_calls = message.tool_calls.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: kind === 'ollama' ? parseArguments(call.arguments) : call.arguments },
+    }));
+  }
+  return wire;
+};
+
+// Parameters only llama.cpp's server knows. Presets and the inspector use
+// them freely, but OpenAI rejects unknown parameters and Ollama has no such
+// options.
+const LLAMA_CPP_ONLY_PARAMS = [
+  'cache_prompt',
+  'samplers',
+  'timings_per_token',
+  'dynatemp_range',
+  'dynatemp_exponent',
+  'xtc_probability',
+  'xtc_threshold',
+  'dry_multiplier',
+  'dry_base',
+  'dry_allowed_length',
+  'dry_penalty_last_n',
+];
+// Ollama has these as options; OpenAI doesn't.
+const NOT_OPENAI_PARAMS = [...LLAMA_CPP_ONLY_PARAMS, 'top_k', 'min_p', 'typical_p', 'repeat_last_n', 'repeat_penalty'];
+const OLLAMA_PARAM_NAMES: Record<string, string> = { max_tokens: 'num_predict' };
+
+const toWireParams = (params: Record<string, unknown>, kind: Provider['kind']) => {
+  if (kind === 'llama.cpp') return params;
+  const unsupported = kind === 'openai' ? NOT_OPENAI_PARAMS : LLAMA_CPP_ONLY_PARAMS;
+  const wire: Record<string, unknown> = {};
+  Object.entries(params).forEach(([key, value]) => {
+    if (unsupported.includes(key)) return;
+    wire[kind === 'ollama' ? OLLAMA_PARAM_NAMES[key] ?? key : key] = value;
+  });
+  return wire;
+};
+
+const buildRequest = (provider: Provider, messages: ChatMessage[], params: Record<string, unknown>, tools: ToolSpec[]) => {
+  const wireMessages = messages.map(m => toWireMessage(m, provider.kind));
+  const wireParams = toWireParams(params, provider.kind);
+  if (provider.kind === 'ollama') {
+    return {
+      url: `${trimSlash(provider.baseUrl)}/api/chat`,
+      body: { model: provider.model, messages: wireMessages, stream: true, options: wireParams, ...(tools.length > 0 ? { tools } : {}) },
+    };
+  }
+  return {
+    url: `${trimSlash(provider.baseUrl)}/v1/chat/completions`,
+    body: {
+      ...wireParams,
+      ...(provider.model ? { model: provider.model } : {}),
+      messages: wireMessages,
+      ...(tools.length > 0 ? { tools } : {}),
+      stream: true,
+      stream_options: { include_usage: true },
+    },
+  };
+};
+
+// A piece of a tool call. OpenAI-style servers stream the arguments in
+// fragments keyed by `index`; Ollama sends whole calls.
+type ToolCallDelta = { index: number; id?: string; name?: string; arguments?: string };
+
+// One parsed stream event, normalised across OpenAI-style SSE and Ollama NDJSON.
+type StreamChunk = {
+  content?: string;
+  toolCalls?: ToolCallDelta[];
+  finishReason?: string | null;
+  model?: string;
+  done?: boolean;
+  stats?: GenerationStats;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const errorMessage = (error: unknown) => {
+  if (typeof error === 'string') return error;
+  if (isRecord(error) && typeof error.message === 'string') return error.message;
+  return JSON.stringify(error);
+};
+
+const readNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+// OpenAI-style `usage`, plus llama.cpp's `timings` when present.
+const readOpenAiStats = (parsed: Record<string, unknown>): GenerationStats | undefined => {
+  const usage = isRecord(parsed.usage) ? parsed.usage : undefined;
+  const timings = isRecord(parsed.timings) ? parsed.timings : undefined;
+  if (!usage && !timings) return undefined;
+  return {
+    promptTokens: readNumber(usage?.prompt_tokens) ?? readNumber(timings?.prompt_n),
+    completionTokens: readNumber(usage?.completion_tokens) ?? readNumber(timings?.predicted_n),
+    tokensPerSecond: readNumber(timings?.predicted_per_second),
+  };
+};
+
+// Ollama reports durations in nanoseconds on its final message.
+const readOllamaStats = (parsed: Record<string, unknown>): GenerationStats => {
+  const completionTokens = readNumber(parsed.eval_count);
+  const evalDuration = readNumber(parsed.eval_duration);
+  return {
+    promptTokens: readNumber(parsed.prompt_eval_count),
+    completionTokens,
+    tokensPerSecond: completionTokens !== undefined && evalDuration ? completionTokens / (evalDuration / 1e9) : undefined,
+  };
+};
+
+const readToolCallDeltas = (value: unknown): ToolCallDelta[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter(isRecord).map((call, i) => {
+    const fn = isRecord(call.function) ? call.function : {};
+    return {
+      index: readNumber(call.index) ?? i,
+      id: typeof call.id === 'string' ? call.id : undefined,
+      name: typeof fn.name === 'string' ? fn.name : undefined,
+      arguments: typeof fn.arguments === 'string' ? fn.arguments : isRecord(fn.arguments) ? JSON.stringify(fn.arguments) : undefined,
+    };
+  });
+};
+
+const parseJson = (data: string) => {
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    throw new CompletionError(`Malformed stream data: ${data.slice(0, 200)}`);
+  }
+};
+
+// An error sent inside the stream after a 200. One with a transient status is
+// worth another try, like the same status on the response itself.
+const streamError = (error: unknown) => {
+  const status = isRecord(error) ? readNumber(error.code) ?? readNumber(error.status) : undefined;
+  const retryable = (status !== undefined && RETRYABLE_STATUSES.includes(status)) || (isRecord(error) && error.type === 'server_error');
+  return new CompletionError(`Server error: ${errorMessage(error)}`, { status, retryable });
+};
+
+// Reading the body fails with something other than a CompletionError when the
+// connection drops partway. A retry starts the response over, so callers
+// should discard the text they have seen so far.
+async function* readBody<T>(items: AsyncIterable<T>): AsyncGenerator<T> {
+  try {
+    yield* items;
+  } catch (error) {
+    if (error instanceof CompletionError || (error instanceof Error && error.name === 'AbortError')) throw error;
+    throw new CompletionError(`Connection lost mid-response: ${error instanceof Error ? error.message : String(error)}`, { retryable: true });
+  }
+}
+
+async function* readOpenAiChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamChunk> {
+  for await (const event of readBody(readSseEvents(body))) {
+    if (event.data === '[DONE]') {
+      yield { done: true };
+      return;
+    }
+    const parsed = parseJson(event.data);
+    if (!isRecord(parsed)) continue;
+    if (event.event === 'error' || parsed.error !== undefined) {
+      throw streamError(parsed.error ?? parsed);
+    }
+    const choice = Array.isArray(parsed.choices) && isRecord(parsed.choices[0]) ? parsed.choices[0] : {};
+    const delta = isRecord(choice.delta) ? choice.delta : {};
+    yield {
+      content: typeof delta.content === 'string' ? delta.content : undefined,
+      toolCalls: readToolCallDeltas(delta.tool_calls),
+      finishReason: typeof choice.finish_reason === 'string' ? choice.finish_reason : null,
+      model: typeof parsed.model === 'string' ? parsed.model : undefined,
+      stats: readOpenAiStats(parsed),
+    };
+  }
+}
+
+async function* readOllamaChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamChunk> {
+  for await (const parsed of readBody(readNdjson(body, parseJson))) {
+    if (!isRecord(parsed)) continue;
+    if (parsed.error !== undefined) throw streamError(parsed.error);
+    const message = isRecord(parsed.message) ? parsed.message : {};
+    yield {
+      content: typeof message.content === 'string' ? message.content : undefined,
+      toolCalls: readToolCallDeltas(message.tool_calls),
+      finishReason: parsed.done ? (typeof parsed.done_reason === 'string' ? parsed.done_reason : 'stop') : null,
+      model: typeof parsed.model === 'string' ? parsed.model : undefined,
+      done: parsed.done === true,
+      stats: parsed.done === true ? readOllamaStats(parsed) : undefined,
+    };
+  }
+}
+
+const definedFields = <T extends object>(value: T) =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+
+export const streamChatCompletion = async (
+  provider: Provider,
+  messages: ChatMessage[],
+  { params = provider.params, tools = [], signal, onText }: StreamOptions = {},
+): Promise<CompletionResult> => {
+  const { url, body } = buildRequest(provider, messages, params, tools);
+  const startedAt = performance.now();
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: buildHeaders(provider),
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') throw error;
+    // fetch only rejects like this when the server couldn't be reached.
+    throw new CompletionError(`Could not reach ${provider.baseUrl}: ${error instanceof Error ? error.message : String(error)}`, { retryable: true });
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    let message = detail.slice(0, 500);
+    try {
+      const parsed: unknown = JSON.parse(detail);
+      if (isRecord(parsed) && parsed.error !== undefined) message = errorMessage(parsed.error);
+    } catch {
+      // Not JSON; keep the raw text.
+    }
+    throw new CompletionError(`HTTP ${response.status}${message ? `: ${message}` : ` ${response.statusText}`}`, {
+      status: response.status,
+      retryable: RETRYABLE_STATUSES.includes(response.status),
+      retryAfterMs: readRetryAfter(response.headers.get('Retry-After')),
+    });
+  }
+
+  const chunks = provider.kind === 'ollama' ? readOllamaChunks(response.body!) : readOpenAiChunks(response.body!);
+  const result: CompletionResult = { text: '', finishReason: null, toolCalls: [], stats: {}, durationMs: 0 };
+  const toolCalls: ToolCall[] = [];
+
+  for await (const chunk of chunks) {
+    if (chunk.model) result.model = chunk.model;
+    if (chunk.stats) result.stats = { ...result.stats, ...definedFields(chunk.stats) };
+    if (chunk.content) {
+      result.stats.timeToFirstTokenMs ??= Math.round(performance.now() - startedAt);
+      result.text += chunk.content;
+      onText?.(result.text);
+    }
+    chunk.toolCalls?.forEach(delta => {
+      // Ollama can send calls over several messages, each list starting at 0.
+      const index = provider.kind === 'ollama' ? toolCalls.length : delta.index;
+      const call = (toolCalls[index] ??= { id: '', name: '', arguments: '' });
+      if (delta.id) call.id = delta.id;
+      if (delta.name) call.name += delta.name;
+      if (delta.arguments) call.arguments += delta.arguments;
+    });
+    if (chunk.finishReason) result.finishReason = chunk.finishReason;
+    if (chunk.done) break;
+  }
+  result.toolCalls = toolCalls.filter(call => call.name !== '').map((call, i) => ({ ...call, id: call.id || `call_${i}` }));
+  result.durationMs = Math.round(performance.now() - startedAt);
+  if (result.finishReason) result.stats.finishReason = result.finishReason;
+  const { completionTokens, timeToFirstTokenMs, tokensPerSecond } = result.stats;
+  if (tokensPerSecond === undefined && completionTokens && timeToFirstTokenMs !== undefined && result.durationMs > timeToFirstTokenMs) {
+    result.stats.tokensPerSecond = completionTokens / ((result.durationMs - timeToFirstTokenMs) / 1000);
+  }
+  return result;
+};
+
+type RetryOptions = {
+  signal?: AbortSignal;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  onRetry?: (attempt: number, error: CompletionError) => void; // attempt is the one about to start
+};
+
+const MAX_RETRY_DELAY_MS = 60_000;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Retries transient failures with exponential backoff (1 s, 2 s, 4 s, ... by
+// default), or as long as the server's Retry-After asks for. That includes
+// failures partway through a stream; `onRetry` is where to clear partial output.
+export const withRetry = async <T>(run: () => Promise<T>, { signal, maxRetries = 3, baseDelayMs = 1000, onRetry }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (!(error instanceof CompletionError) || !error.retryable || attempt > maxRetries) throw error;
+      onRetry?.(attempt + 1, error);
+      await wait(Math.min(error.retryAfterMs ?? baseDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS), signal);
+    }
+  }
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { fitHistory } from './contextBudget';
+import { createProvider } from './providers';
+import type { ChatMessage } from './scene';
+
+const text = (tokens: number) => 'x'.repeat(tokens * 4);
+
+// Each message is about 104 tokens with its overhead.
+const history: ChatMessage[] = [
+  { role: 'system', content: text(100) },
+  { role: 'user', content: text(100) },
+  { role: 'assistant', content: '', tool_calls: [{ id: 'call_0', name: 'calculator', arguments: '{}' }] },
+  { role: 'tool', content: text(100), tool_call_id: 'call_0' },
+  { role: 'assistant', content: text(100) },
+  { role: 'user', content: text(100) },
+];
+
+const provider = (overrides = {}) => ({ ...createProvider('openai'), params: {}, ...overrides });
+
+describe('fitHistory', () => {
+  it('keeps a history that fits', () => {
+    expect(fitHistory(history, provider(), {}).messages).toEqual(history);
+  });
+
+  it('keeps the system prompt and drops the oldest turns after it', () => {
+    // Room for about three messages.
+    const fitted = fitHistory(history, provider({ contextSize: 320 }), {});
+    expect(fitted.messages).toEqual([history[0], history[5]]);
+    expect(fitted.dropped).toBe(4);
+  });
+
+  it('drops tool results along with the assistant message that called them', () => {
+    // Dropping just the first prompt and the call would leave a tool result first.
+    const fitted = fitHistory(history, provider({ contextSize: 518 }), {});
+    expect(fitted.messages).toEqual([history[0], history[5]]);
+    expect(fitted.messages[1].role).not.toBe('tool');
+  });
+
+  it('never starts the kept tail with a tool result', () => {
+    const fitted = fitHistory(history, provider({ overflow: 'keep-last', keepLastMessages: 3, contextSize: 100 }), {});
+    expect(fitted.messages).toEqual([history[0], history[5]]);
+  });
+
+  it('keeps the calling assistant message when only tool results would be left', () => {
+    const pending = history.slice(0, 4);
+    const fitted = fitHistory(pending, provider({ overflow: 'keep-last', keepLastMessages: 1, contextSize: 100 }), {});
+    expect(fitted.messages).toEqual([history[0], history[2], history[3]]);
+  });
+});
@@ -0,0 +1,93 @@
+import { DEFAULT_CONTEXT_SIZE, DEFAULT_KEEP_LAST_MESSAGES } from './providers';
+import type { Provider } from './providers';
+import { getMessageImages, getMessageText } from './scene';
+import type { ChatMessage } from './scene';
+
+// Chat templates wrap every message in a few role and separator tokens.
+const MESSAGE_OVERHEAD = 4;
+
+// Roughly four characters per token for English text and code. Good enough to
+// warn before the server does; the server's tokenizer has the final say.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// A flat guess per image; what servers actually charge depends on the model
+// and the image's size.
+const IMAGE_TOKENS = 768;
+
+export const estimateMessageTokens = (message: ChatMessage) =>
+  estimateTokens(getMessageText(message)) + getMessageImages(message).length * IMAGE_TOKENS + MESSAGE_OVERHEAD;
+
+export const estimateHistoryTokens = (messages: ChatMessage[]) =>
+  messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+// Room left for the prompt once the response's token limit is set aside.
+export const getPromptBudget = (provider: Provider, params: Record<string, unknown>) => {
+  const contextSize = provider.contextSize ?? DEFAULT_CONTEXT_SIZE;
+  const limit = params.max_tokens ?? params.num_predict;
+  const reserved = typeof limit === 'number' && limit > 0 ? limit : 0;
+  return Math.max(0, contextSize - reserved);
+};
+
+export type FittedHistory = {
+  messages: ChatMessage[];
+  tokens: number; // estimate for `messages`
+  budget: number;
+  dropped: number;
+  blocked: boolean; // 'block' strategy and the history didn't fit
+};
+
+const leadingSystemCount = (messages: ChatMessage[]) => {
+  const index = messages.findIndex(m => m.role !== 'system');
+  return index === -1 ? messages.length : index;
+};
+
+// Keeps `messages` from `start` on, moved forward past any replies since
+// templates expect the conversation proper to open with a user message. Tool
+// results go with the assistant message that called them, as servers reject
+// them on their own; if only replies are left, the last such group is kept.
+const keepFrom = (messages: ChatMessage[], start: number) => {
+  const first = messages.findIndex((m, i) => i >= start && m.role !== 'assistant' && m.role !== 'tool');
+  if (first !== -1) return messages.slice(first);
+  let last = messages.length - 1;
+  while (last > 0 && messages[last].role === 'tool') last--;
+  return messages.slice(last);
+};
+
+// Trims a path's history to the provider's context window. The newest message
+// is always kept, even if it doesn't fit on its own.
+export const fitHistory = (history: ChatMessage[], provider: Provider, params: Record<string, unknown>): FittedHistory => {
+  const budget = getPromptBudget(provider, params);
+  const total = estimateHistoryTokens(history);
+  const result = (messages: ChatMessage[], blocked = false): FittedHistory => ({
+    messages,
+    tokens: estimateHistoryTokens(messages),
+    budget,
+    dropped: history.length - messages.length,
+    blocked,
+  });
+
+  if (total <= budget || history.length <= 1) return result(history);
+
+  switch (provider.overflow ?? 'drop-oldest') {
+    case 'block':
+      return result(history, true);
+    case 'keep-last': {
+      const systemCount = leadingSystemCount(history);
+      const keep = Math.max(1, provider.keepLastMessages ?? DEFAULT_KEEP_LAST_MESSAGES);
+      const rest = history.slice(systemCount);
+      return result([...history.slice(0, systemCount), ...keepFrom(rest, rest.length - keep)]);
+    }
+    case 'drop-oldest': {
+      // Leading system messages, the prompt and any checkpoint summary, stay.
+      const systemCount = leadingSystemCount(history);
+      let start = systemCount;
+      let tokens = total;
+      while (tokens > budget && start < history.length - 1) {
+        tokens -= estimateMessageTokens(history[start]);
+        start++;
+      }
+      const rest = history.slice(systemCount);
+      return result([...history.slice(0, systemCount), ...keepFrom(rest, start - systemCount)]);
+    }
+  }
+};
@@ -0,0 +1,48 @@
+import { uid } from './scene';
+import type { Attachment } from './scene';
+
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const pickFile = (accept: string): Promise<File | null> =>
+  new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => resolve(input.files?.[0] ?? null);
+    input.click();
+  });
+
+export const toFileName = (name: string) => name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'graph';
+
+// Kept small because attachments are stored inline in the workspace and its exports.
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const getImageFiles = (data: DataTransfer | null) =>
+  Array.from(data?.files ?? []).filter(file => file.type.startsWith('image/'));
+
+const readDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Images over the size limit are left out and named in `skipped`.
+export const readImageAttachments = async (files: File[]): Promise<{ attachments: Attachment[]; skipped: string[] }> => {
+  const accepted = files.filter(file => file.size <= MAX_IMAGE_BYTES);
+  const attachments = await Promise.all(accepted.map(async file => ({
+    id: uid(),
+    name: file.name || 'image',
+    mimeType: file.type,
+    dataUrl: await readDataUrl(file),
+  })));
+  return { attachments, skipped: files.filter(file => !accepted.includes(file)).map(file => file.name || 'image') };
+};
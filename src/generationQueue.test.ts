@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { getQueuePosition } from './generationQueue';
+import type { GenerationJob } from './generationQueue';
+
+const job = (nodeId: string, poolId: string): GenerationJob =>
+  ({ nodeId, poolId, limit: 1, signal: new AbortController().signal, run: async () => {}, onCancel: () => {} });
+
+describe('getQueuePosition', () => {
+  it('counts only jobs waiting on the same pool', () => {
+    const queue = { running: [job('r', 'a')], waiting: [job('w1', 'a'), job('w2', 'b'), job('w3', 'a'), job('w4', 'b')] };
+    expect(getQueuePosition(queue, 'w1')).toBe(1);
+    expect(getQueuePosition(queue, 'w2')).toBe(1);
+    expect(getQueuePosition(queue, 'w3')).toBe(2);
+    expect(getQueuePosition(queue, 'w4')).toBe(2);
+    expect(getQueuePosition(queue, 'r')).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import { useSyncExternalStore } from 'react';
+import type { NodeId } from './scene';
+
+export type GenerationJob = {
+  nodeId: NodeId;
+  poolId: string; // jobs sharing a pool share its concurrency limit
+  limit: number;
+  signal: AbortSignal;
+  run: () => Promise<void>;
+  onCancel: () => void; // aborted before it started
+};
+
+export type QueueSnapshot = { running: GenerationJob[]; waiting: GenerationJob[] };
+
+// Starts jobs in the order they were queued, as long as their pool has a free
+// slot. Aborting a waiting job's signal drops it from the queue.
+const createGenerationQueue = () => {
+  let snapshot: QueueSnapshot = { running: [], waiting: [] };
+  const listeners = new Set<() => void>();
+
+  const update = (next: QueueSnapshot) => {
+    snapshot = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const pump = () => {
+    let { running, waiting } = snapshot;
+    const started: GenerationJob[] = [];
+    waiting.forEach(job => {
+      if (running.filter(j => j.poolId === job.poolId).length >= job.limit) return;
+      running = [...running, job];
+      started.push(job);
+    });
+    if (started.length === 0) return;
+    waiting = waiting.filter(job => !started.includes(job));
+    update({ running, waiting });
+    started.forEach(job => {
+      job.run()
+        .catch(error => console.error('Error running generation:', error))
+        .finally(() => {
+          update({ ...snapshot, running: snapshot.running.filter(j => j !== job) });
+          pump();
+        });
+    });
+  };
+
+  const enqueue = (job: GenerationJob) => {
+    if (job.signal.aborted) {
+      job.onCancel();
+      return;
+    }
+    job.signal.addEventListener('abort', () => {
+      if (!snapshot.waiting.includes(job)) return;
+      update({ ...snapshot, waiting: snapshot.waiting.filter(j => j !== job) });
+      job.onCancel();
+    }, { once: true });
+    update({ ...snapshot, waiting: [...snapshot.waiting, job] });
+    pump();
+  };
+
+  // Drops a node's job if it hasn't started yet.
+  const cancel = (nodeId: NodeId) => {
+    const dropped = snapshot.waiting.filter(job => job.nodeId === nodeId);
+    if (dropped.length === 0) return;
+    update({ ...snapshot, waiting: snapshot.waiting.filter(job => job.nodeId !== nodeId) });
+    dropped.forEach(job => job.onCancel());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const get = () => snapshot;
+
+  const use = () => useSyncExternalStore(subscribe, get);
+
+  return { enqueue, cancel, get, use };
+};
+
+export const generationQueue = createGenerationQueue();
+
+// 1-based place of a node's job among those waiting on the same pool, since
+// only those have to start first.
+export const getQueuePosition = ({ waiting }: QueueSnapshot, nodeId: NodeId) => {
+  const job = waiting.find(j => j.nodeId === nodeId);
+  if (!job) return undefined;
+  return waiting.filter(j => j.poolId === job.poolId).indexOf(job) + 1;
+};
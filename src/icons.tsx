@@ -0,0 +1,55 @@
+import type { Node } from './scene';
+
+export const UserIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ display: 'block' }}>
+    <path d="M8 8C9.65685 8 11 6.65685 11 5C11 3.34315 9.65685 2 8 2C6.34315 2 5 3.34315 5 5C5 6.65685 6.34315 8 8 8Z" stroke="#64748B" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M13 14C13 11.2386 10.7614 9 8 9C5.23858 9 3 11.2386 3 14" stroke="#64748B" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+export const BotIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ display: 'block' }}>
+    <rect x="2.75" y="4.75" width="10.5" height="6.5" rx="1.25" stroke="#64748B" strokeWidth="1.5"/>
+    <circle cx="6.5" cy="8" r="0.5" fill="#64748B"/>
+    <circle cx="9.5" cy="8" r="0.5" fill="#64748B"/>
+  </svg>
+);
+
+export const SystemIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ display: 'block' }}>
+    <rect x="2.75" y="2.75" width="10.5" height="10.5" rx="1.25" stroke="#B45309" strokeWidth="1.5"/>
+    <path d="M5.5 6L7.5 8L5.5 10" stroke="#B45309" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M8.5 10H10.5" stroke="#B45309" strokeWidth="1.5" strokeLinecap="round"/>
+  </svg>
+);
+
+export const CheckpointIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ display: 'block' }}>
+    <path d="M4 14V2.75" stroke="#2563EB" strokeWidth="1.5" strokeLinecap="round"/>
+    <path d="M4 3H12L10.5 5.75L12 8.5H4" stroke="#2563EB" strokeWidth="1.5" strokeLinejoin="round"/>
+  </svg>
+);
+
+export const ToolIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ display: 'block' }}>
+    <path d="M10 2.75A3.25 3.25 0 0 0 6.94 7.1L2.9 11.15A1.38 1.38 0 0 0 4.85 13.1L8.9 9.06A3.25 3.25 0 0 0 13.25 6L11.35 7.9L9.25 7.35L8.7 5.25L10.6 3.35" stroke="#047857" strokeWidth="1.5" strokeLinejoin="round"/>
+  </svg>
+);
+
+export const NodeIcon = ({ node }: { node: Node }) => {
+  if (node.checkpoint) return <CheckpointIcon />;
+  if (node.author === 'tool') return <ToolIcon />;
+  return node.author === 'system' ? <SystemIcon /> : node.author === 'user' ? <UserIcon /> : <BotIcon />;
+};
+
+export const PlayIcon = () => (
+    <svg width="12" height="12" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M4.66669 2.66663L11.3334 7.99996L4.66669 13.3333V2.66663Z" fill="#64748B"/>
+    </svg>
+);
+
+export const HaltIcon = () => (
+    <svg width="12" height="12" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <rect x="4" y="4" width="8" height="8" fill="#64748B"/>
+    </svg>
+);
@@ -0,0 +1,97 @@
+import type { Edge, Node, NodeId } from './scene';
+
+export const MIN_NODE_WIDTH = 240;
+export const MAX_NODE_WIDTH = 560;
+export const ROW_GAP = 60;
+export const COLUMN_GAP = 40;
+
+const CHAR_WIDTH = 7.5;
+const LINE_HEIGHT = 20;
+const CHROME = { x: 24 + 24, y: 16 }; // padding plus author icon
+
+// Nodes are measured after they render; this is a rough guess for placing
+// nodes that haven't been rendered yet.
+export const estimateNodeSize = (text: string) => {
+  const charsPerLine = Math.floor((MAX_NODE_WIDTH - CHROME.x) / CHAR_WIDTH);
+  const lines = text.split('\n');
+  const longest = Math.max(0, ...lines.map(l => l.length));
+  const rows = lines.reduce((sum, l) => sum + Math.max(1, Math.ceil(l.length / charsPerLine)), 0);
+  return {
+    w: Math.min(MAX_NODE_WIDTH, Math.max(MIN_NODE_WIDTH, longest * CHAR_WIDTH + CHROME.x)),
+    h: rows * LINE_HEIGHT + CHROME.y,
+  };
+};
+
+export const getChildren = (nodes: Record<NodeId, Node>) => {
+  const children: Record<NodeId, NodeId[]> = {};
+  Object.values(nodes).forEach(node => {
+    if (node.parentId) (children[node.parentId] ??= []).push(node.id);
+  });
+  return children;
+};
+
+export const getBounds = (nodes: Node[]) => {
+  if (nodes.length === 0) return null;
+  return {
+    minX: Math.min(...nodes.map(n => n.x)),
+    minY: Math.min(...nodes.map(n => n.y)),
+    maxX: Math.max(...nodes.map(n => n.x + n.w)),
+    maxY: Math.max(...nodes.map(n => n.y + n.h)),
+  };
+};
+
+// Places `rootId` at (x, y) with its descendants in rows below, siblings left
+// to right. Only nodes accepted by `include` are moved. Returns the x just past
+// the right edge of the placed subtree.
+export const layoutSubtree = (
+  nodes: Record<NodeId, Node>,
+  children: Record<NodeId, NodeId[]>,
+  rootId: NodeId,
+  x: number,
+  y: number,
+  include: (id: NodeId) => boolean = () => true,
+): number => {
+  const node = nodes[rootId];
+  nodes[rootId] = { ...node, x, y };
+  let nextX = x;
+  (children[rootId] ?? []).filter(include).forEach(childId => {
+    nextX = layoutSubtree(nodes, children, childId, nextX, y + node.h + ROW_GAP, include);
+  });
+  return Math.max(nextX, x + node.w + COLUMN_GAP);
+};
+
+export const getEdgePoints = (edge: Edge, fromNode: Node, toNode: Node) => ({
+  x1: edge.fromPoint ? fromNode.x + edge.fromPoint.x : fromNode.x + fromNode.w / 2,
+  y1: edge.fromPoint ? fromNode.y + edge.fromPoint.y : fromNode.y + fromNode.h,
+  x2: toNode.x + toNode.w / 2,
+  y2: toNode.y,
+});
+
+export type ArrangeMode = 'align-left' | 'align-top' | 'distribute-horizontal' | 'distribute-vertical';
+
+// New positions for lining nodes up on their left or top edges, or for
+// spacing them evenly between the two outermost ones, which stay put.
+export const arrangeNodes = (nodes: Node[], mode: ArrangeMode): Record<NodeId, { x: number; y: number }> => {
+  const positions: Record<NodeId, { x: number; y: number }> = {};
+  if (nodes.length < 2) return positions;
+  if (mode === 'align-left' || mode === 'align-top') {
+    const axis = mode === 'align-left' ? 'x' : 'y';
+    const edge = Math.min(...nodes.map(n => n[axis]));
+    nodes.forEach(n => {
+      positions[n.id] = { x: n.x, y: n.y, [axis]: edge };
+    });
+    return positions;
+  }
+  const [axis, size] = mode === 'distribute-horizontal' ? (['x', 'w'] as const) : (['y', 'h'] as const);
+  const sorted = [...nodes].sort((a, b) => a[axis] - b[axis]);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const span = last[axis] + last[size] - first[axis];
+  const gap = (span - sorted.reduce((sum, n) => sum + n[size], 0)) / (sorted.length - 1);
+  let cursor = first[axis];
+  sorted.forEach(n => {
+    positions[n.id] = { x: n.x, y: n.y, [axis]: cursor };
+    cursor += n[size] + gap;
+  });
+  return positions;
+};
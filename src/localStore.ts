@@ -0,0 +1,36 @@
+import { useSyncExternalStore } from 'react';
+
+// A value persisted in localStorage that components can subscribe to.
+export const createLocalStore = <T>(key: string, fallback: () => T, isValid: (value: unknown) => value is T) => {
+  const load = (): T => {
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(key) ?? 'null');
+      if (isValid(stored)) return stored;
+    } catch (error) {
+      console.error(`Error loading ${key}:`, error);
+    }
+    return fallback();
+  };
+
+  let value = load();
+  const listeners = new Set<() => void>();
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const get = () => value;
+
+  const set = (next: T) => {
+    value = next;
+    localStorage.setItem(key, JSON.stringify(next));
+    listeners.forEach(listener => listener());
+  };
+
+  const use = () => useSyncExternalStore(subscribe, get);
+
+  return { get, set, use };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getLatestLeaf } from './navigation';
+import type { Node } from './scene';
+
+const node = (id: string, parentId: string | undefined, createdAt?: number): Node =>
+  ({ id, x: 0, y: 0, w: 240, h: 60, text: '', author: 'user', parentId, createdAt });
+
+describe('getLatestLeaf', () => {
+  it('picks the leaf created last, whatever order the ids sort in', () => {
+    // Integer-like keys are iterated in numeric order, not insertion order.
+    const nodes = Object.fromEntries([
+      node('root', undefined, 1),
+      node('900', 'root', 2),
+      node('42', 'root', 3),
+      node('7', '900', 4),
+      node('other', undefined, 5),
+    ].map(n => [n.id, n]));
+    expect(getLatestLeaf('900', nodes)).toBe('7');
+    expect(getLatestLeaf('42', { ...nodes, 8: node('8', 'root', 6) })).toBe('8');
+  });
+
+  it('prefers leaves with a creation time over older ones without', () => {
+    const nodes = Object.fromEntries([node('a', undefined), node('b', 'a'), node('c', 'a', 10)].map(n => [n.id, n]));
+    expect(getLatestLeaf('a', nodes)).toBe('c');
+  });
+});
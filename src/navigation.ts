@@ -0,0 +1,50 @@
+import { getChildren } from './layout';
+import { getPathIds } from './scene';
+import type { Node, NodeId } from './scene';
+
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+const byPosition = (a: Node, b: Node) => a.x - b.x || a.y - b.y;
+
+// Up goes to the parent and down to the preferred child, or else the leftmost.
+// Left and right step between siblings, or between conversations at the top.
+export const getNeighbor = (nodeId: NodeId, direction: Direction, nodes: Record<NodeId, Node>): NodeId | null => {
+  const node = nodes[nodeId];
+  if (!node) return null;
+  if (direction === 'up') return node.parentId && nodes[node.parentId] ? node.parentId : null;
+
+  const children = getChildren(nodes);
+  if (direction === 'down') {
+    const below = (children[nodeId] ?? []).map(id => nodes[id]).sort(byPosition);
+    return (below.find(n => n.preferred) ?? below[0])?.id ?? null;
+  }
+  const siblings = (node.parentId ? children[node.parentId] ?? [] : Object.keys(nodes).filter(id => !nodes[id].parentId))
+    .map(id => nodes[id])
+    .sort(byPosition);
+  const index = siblings.findIndex(n => n.id === nodeId);
+  return siblings[index + (direction === 'left' ? -1 : 1)]?.id ?? null;
+};
+
+export const getRootId = (nodeId: NodeId, nodes: Record<NodeId, Node>) => getPathIds(nodeId, nodes)[0] ?? nodeId;
+
+// The leaf added last in the node's conversation. Nodes from before creation
+// times were recorded count as the oldest.
+export const getLatestLeaf = (nodeId: NodeId, nodes: Record<NodeId, Node>) => {
+  const children = getChildren(nodes);
+  const seen = new Set<NodeId>();
+  const stack = [getRootId(nodeId, nodes)];
+  let latest: Node | undefined;
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id) || !nodes[id]) continue;
+    seen.add(id);
+    if (children[id]) stack.push(...children[id]);
+    else if (!latest || (nodes[id].createdAt ?? 0) > (latest.createdAt ?? 0)) latest = nodes[id];
+  }
+  return latest?.id ?? nodeId;
+};
+
+export const getNearestNode = (point: { x: number; y: number }, nodes: Record<NodeId, Node>) => {
+  const distance = (n: Node) => Math.hypot(n.x + n.w / 2 - point.x, n.y + n.h / 2 - point.y);
+  return Object.values(nodes).reduce<Node | null>((best, n) => (!best || distance(n) < distance(best) ? n : best), null)?.id ?? null;
+};
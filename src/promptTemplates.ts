@@ -0,0 +1,34 @@
+import { createLocalStore } from './localStore';
+import { uid } from './scene';
+
+// Follow-up prompts offered for text selected in a response. `{{selection}}`
+// and `{{node}}` are replaced with the selected text and the whole response.
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  template: string;
+  shortcut?: string; // a single key, pressed while the quick actions are open
+};
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  { id: 'explain', name: 'Explain', template: '"{{selection}}"\n\nExplain this part more.', shortcut: 'e' },
+  { id: 'example', name: 'Give an example', template: '"{{selection}}"\n\nGive a concrete example of this.', shortcut: 'x' },
+  { id: 'counter', name: 'Counter-argument', template: '"{{selection}}"\n\nWhat is the strongest counter-argument to this?', shortcut: 'c' },
+  { id: 'translate', name: 'Translate', template: 'Translate into English, or into French if it is already English:\n\n{{selection}}', shortcut: 't' },
+  { id: 'tests', name: 'Write tests for this', template: 'Write unit tests for this code:\n\n```\n{{selection}}\n```', shortcut: 'w' },
+];
+
+export const fillTemplate = (template: string, values: { selection: string; node: string }) =>
+  template.replace(/\{\{\s*(selection|node)\s*\}\}/g, (_, key: keyof typeof values) => values[key]);
+
+export const createPromptTemplate = (): PromptTemplate => ({ id: uid(), name: 'New template', template: '"{{selection}}"\n\n' });
+
+const store = createLocalStore<PromptTemplate[]>(
+  'graph-bop:prompt-templates',
+  () => DEFAULT_PROMPT_TEMPLATES,
+  (value): value is PromptTemplate[] => Array.isArray(value),
+);
+
+export const getPromptTemplates = store.get;
+export const setPromptTemplates = store.set;
+export const usePromptTemplates = store.use;
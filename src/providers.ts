@@ -0,0 +1,109 @@
+import { createLocalStore } from './localStore';
+import { uid } from './scene';
+
+export type ProviderKind = 'llama.cpp' | 'openai' | 'ollama';
+
+// What to do when a path's history doesn't fit the context window.
+export type OverflowStrategy = 'drop-oldest' | 'keep-last' | 'block';
+
+export type Provider = {
+  id: string;
+  name: string;
+  kind: ProviderKind;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  apiKeyHeader?: string; // sent as `Authorization: Bearer <key>` when empty
+  params: Record<string, unknown>;
+  contextSize?: number; // tokens; DEFAULT_CONTEXT_SIZE when unset
+  overflow?: OverflowStrategy;
+  keepLastMessages?: number; // used by 'keep-last'
+  maxConcurrent?: number; // generations at once; more wait in the queue
+};
+
+export type ProviderSettings = {
+  providers: Provider[];
+  activeId: string;
+};
+
+// Recorded on each generated node.
+export type ProviderRef = { id: string; name: string; model: string };
+
+export const PROVIDER_KINDS: { kind: ProviderKind; label: string }[] = [
+  { kind: 'llama.cpp', label: 'llama.cpp server' },
+  { kind: 'openai', label: 'OpenAI-compatible' },
+  { kind: 'ollama', label: 'Ollama' },
+];
+
+export const OVERFLOW_STRATEGIES: { strategy: OverflowStrategy; label: string }[] = [
+  { strategy: 'drop-oldest', label: 'Drop oldest messages' },
+  { strategy: 'keep-last', label: 'Keep system prompt and last N messages' },
+  { strategy: 'block', label: 'Block and warn' },
+];
+
+export const DEFAULT_CONTEXT_SIZE = 8192;
+export const DEFAULT_KEEP_LAST_MESSAGES = 8;
+export const DEFAULT_MAX_CONCURRENT = 2;
+
+const LLAMA_CPP_PARAMS = {
+  cache_prompt: true,
+  samplers: 'edkypmxt',
+  temperature: 0.8,
+  dynatemp_range: 0,
+  dynatemp_exponent: 1,
+  top_k: 40,
+  top_p: 0.95,
+  min_p: 0.05,
+  typical_p: 1,
+  xtc_probability: 0,
+  xtc_threshold: 0.1,
+  repeat_last_n: 64,
+  repeat_penalty: 1,
+  presence_penalty: 0,
+  frequency_penalty: 0,
+  dry_multiplier: 0,
+  dry_base: 1.75,
+  dry_allowed_length: 2,
+  dry_penalty_last_n: -1,
+  max_tokens: -1,
+  timings_per_token: false,
+};
+
+export const DEFAULT_PARAMS: Record<ProviderKind, Record<string, unknown>> = {
+  'llama.cpp': LLAMA_CPP_PARAMS,
+  openai: { temperature: 0.8, top_p: 0.95 },
+  ollama: { temperature: 0.8, top_k: 40, top_p: 0.95, min_p: 0.05 },
+};
+
+const DEFAULT_BASE_URLS: Record<ProviderKind, string> = {
+  'llama.cpp': 'http://127.0.0.1:8080',
+  openai: 'https://api.openai.com',
+  ollama: 'http://127.0.0.1:11434',
+};
+
+export const createProvider = (kind: ProviderKind, name = PROVIDER_KINDS.find(k => k.kind === kind)!.label): Provider => ({
+  id: uid(),
+  name,
+  kind,
+  baseUrl: DEFAULT_BASE_URLS[kind],
+  model: '',
+  params: { ...DEFAULT_PARAMS[kind] },
+});
+
+const DEFAULT_PROVIDER: Provider = { ...createProvider('llama.cpp', 'llama.cpp (local)'), id: 'llama-cpp-local' };
+
+const store = createLocalStore<ProviderSettings>(
+  'graph-bop:providers',
+  () => ({ providers: [DEFAULT_PROVIDER], activeId: DEFAULT_PROVIDER.id }),
+  (value): value is ProviderSettings =>
+    typeof value === 'object' && value !== null && Array.isArray((value as ProviderSettings).providers) && (value as ProviderSettings).providers.length > 0,
+);
+
+export const getProviderSettings = store.get;
+export const setProviderSettings = store.set;
+export const useProviderSettings = store.use;
+
+export const getActiveProvider = (current = getProviderSettings()) =>
+  current.providers.find(p => p.id === current.activeId) ?? current.providers[0];
+
+export const toProviderRef = (provider: Provider): ProviderRef => ({ id: provider.id, name: provider.name, model: provider.model });
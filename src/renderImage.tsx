@@ -0,0 +1,100 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import NodeSnapshot from './NodeSnapshot';
+import { getBounds, getEdgePoints } from './layout';
+import type { Node, Scene, Viewport } from './scene';
+import { nodeBackground } from './styles';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const REGION_PADDING = 24;
+const MAX_CANVAS_SIZE = 16384;
+
+export type ImageRegion = { x: number; y: number; w: number; h: number };
+
+// Selection branches keep their prompt in a zero-sized node that never renders.
+const isRendered = (node: Node) => node.w > 0 && node.h > 0;
+
+const intersects = (node: Node, region: ImageRegion) =>
+  node.x < region.x + region.w && node.x + node.w > region.x && node.y < region.y + region.h && node.y + node.h > region.y;
+
+export const getSceneRegion = (scene: Scene): ImageRegion | null => {
+  const bounds = getBounds(Object.values(scene.nodes).filter(isRendered));
+  if (!bounds) return null;
+  return {
+    x: bounds.minX - REGION_PADDING,
+    y: bounds.minY - REGION_PADDING,
+    w: bounds.maxX - bounds.minX + REGION_PADDING * 2,
+    h: bounds.maxY - bounds.minY + REGION_PADDING * 2,
+  };
+};
+
+export const getViewportRegion = (vp: Viewport, width: number, height: number): ImageRegion => ({
+  x: -vp.x / vp.scale,
+  y: -vp.y / vp.scale,
+  w: width / vp.scale,
+  h: height / vp.scale,
+});
+
+const createSvgElement = (name: string, attributes: Record<string, string | number>) => {
+  const el = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => el.setAttribute(key, String(value)));
+  return el;
+};
+
+// Builds a standalone SVG document. Node text is rendered to HTML inside
+// <foreignObject> so Markdown and highlighted code look as they do on screen.
+export const renderSceneToSvg = (scene: Scene, region: ImageRegion, scale = 1) => {
+  const svg = createSvgElement('svg', {
+    width: Math.ceil(region.w * scale),
+    height: Math.ceil(region.h * scale),
+    viewBox: `${region.x} ${region.y} ${region.w} ${region.h}`,
+  });
+  svg.appendChild(createSvgElement('rect', { x: region.x, y: region.y, width: region.w, height: region.h, fill: '#F8FAFC' }));
+
+  scene.edges.forEach(edge => {
+    const fromNode = scene.nodes[edge.from];
+    const toNode = scene.nodes[edge.to];
+    if (!fromNode || !toNode) return;
+    const { x1, y1, x2, y2 } = getEdgePoints(edge, fromNode, toNode);
+    svg.appendChild(createSvgElement('line', { x1, y1, x2, y2, stroke: '#9CA3AF', 'stroke-width': 1 }));
+  });
+
+  Object.values(scene.nodes)
+    .filter(node => isRendered(node) && intersects(node, region))
+    .forEach(node => {
+      const group = createSvgElement('g', {});
+      group.appendChild(createSvgElement('rect', {
+        x: node.x, y: node.y, width: node.w, height: node.h, rx: 4, fill: nodeBackground(node), stroke: '#9CA3AF', 'stroke-width': 1,
+      }));
+      const foreignObject = createSvgElement('foreignObject', { x: node.x, y: node.y, width: node.w, height: node.h });
+      const body = document.createElement('div');
+      body.style.width = '100%';
+      body.style.height = '100%';
+      body.innerHTML = renderToStaticMarkup(<NodeSnapshot node={node} />);
+      foreignObject.appendChild(body);
+      group.appendChild(foreignObject);
+      svg.appendChild(group);
+    });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+};
+
+export const renderSvgToPng = (svg: string, width: number, height: number, pixelRatio = window.devicePixelRatio || 1): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const ratio = Math.min(pixelRatio, MAX_CANVAS_SIZE / width, MAX_CANVAS_SIZE / height);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(width * ratio);
+      canvas.height = Math.floor(height * ratio);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.scale(ratio, ratio);
+      ctx.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not rasterize SVG'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
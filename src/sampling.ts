@@ -0,0 +1,81 @@
+import { createLocalStore } from './localStore';
+import { getPathIds, uid } from './scene';
+import type { Node, NodeId } from './scene';
+
+export type SamplingParams = Record<string, number | string | boolean>;
+
+export type SamplingPreset = {
+  id: string;
+  name: string;
+  params: SamplingParams;
+  builtIn?: boolean;
+};
+
+// Parameters the inspector offers; anything else can still be set as a
+// provider default.
+export const SAMPLING_FIELDS: { key: string; label: string; step: number }[] = [
+  { key: 'temperature', label: 'Temperature', step: 0.05 },
+  { key: 'top_k', label: 'Top K', step: 1 },
+  { key: 'top_p', label: 'Top P', step: 0.01 },
+  { key: 'min_p', label: 'Min P', step: 0.01 },
+  { key: 'typical_p', label: 'Typical P', step: 0.01 },
+  { key: 'dynatemp_range', label: 'Dynamic temp range', step: 0.05 },
+  { key: 'dynatemp_exponent', label: 'Dynamic temp exponent', step: 0.05 },
+  { key: 'xtc_probability', label: 'XTC probability', step: 0.05 },
+  { key: 'xtc_threshold', label: 'XTC threshold', step: 0.01 },
+  { key: 'repeat_last_n', label: 'Repeat last N', step: 1 },
+  { key: 'repeat_penalty', label: 'Repeat penalty', step: 0.01 },
+  { key: 'presence_penalty', label: 'Presence penalty', step: 0.05 },
+  { key: 'frequency_penalty', label: 'Frequency penalty', step: 0.05 },
+  { key: 'dry_multiplier', label: 'DRY multiplier', step: 0.05 },
+  { key: 'dry_base', label: 'DRY base', step: 0.05 },
+  { key: 'dry_allowed_length', label: 'DRY allowed length', step: 1 },
+  { key: 'dry_penalty_last_n', label: 'DRY penalty last N', step: 1 },
+  { key: 'max_tokens', label: 'Max tokens', step: 1 },
+];
+
+export const BUILT_IN_PRESETS: SamplingPreset[] = [
+  {
+    id: 'precise',
+    name: 'Precise',
+    builtIn: true,
+    params: { temperature: 0.2, top_k: 20, top_p: 0.9, min_p: 0.1, xtc_probability: 0, dry_multiplier: 0 },
+  },
+  {
+    id: 'creative',
+    name: 'Creative',
+    builtIn: true,
+    params: { temperature: 1.1, top_k: 100, top_p: 0.98, min_p: 0.02, xtc_probability: 0.5, xtc_threshold: 0.1, dry_multiplier: 0.8 },
+  },
+  {
+    id: 'code',
+    name: 'Code',
+    builtIn: true,
+    params: { temperature: 0.1, top_k: 10, top_p: 0.9, min_p: 0.05, repeat_penalty: 1, xtc_probability: 0, dry_multiplier: 0 },
+  },
+];
+
+const presetStore = createLocalStore<SamplingPreset[]>(
+  'graph-bop:sampling-presets',
+  () => [],
+  (value): value is SamplingPreset[] => Array.isArray(value),
+);
+
+export const useCustomPresets = presetStore.use;
+
+export const saveSamplingPreset = (name: string, params: SamplingParams) => {
+  const preset: SamplingPreset = { id: uid(), name, params };
+  presetStore.set([...presetStore.get(), preset]);
+  return preset;
+};
+
+export const deleteSamplingPreset = (id: string) => {
+  presetStore.set(presetStore.get().filter(p => p.id !== id));
+};
+
+// Overrides set on ancestors apply to their whole subtree; the nearest one wins.
+export const resolveSamplingOverrides = (nodeId: NodeId, nodes: Record<NodeId, Node>): SamplingParams =>
+  getPathIds(nodeId, nodes).reduce<SamplingParams>((params, id) => ({ ...params, ...nodes[id].samplingOverrides }), {});
+
+export const formatParamValue = (value: unknown) =>
+  typeof value === 'number' ? String(Math.round(value * 1000) / 1000) : JSON.stringify(value);
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { getConversationHistory, getPreferredLeaf } from './scene';
+import type { GenerationStatus, Node } from './scene';
+
+const node = (id: string, parentId?: string, preferred?: boolean): Node =>
+  ({ id, x: 0, y: 0, w: 240, h: 60, text: '', author: 'llm', parentId, preferred });
+
+describe('getPreferredLeaf', () => {
+  it('follows preferred children down', () => {
+    const nodes = { a: node('a'), b: node('b', 'a', true), c: node('c', 'a'), d: node('d', 'b', true) };
+    expect(getPreferredLeaf('a', nodes)).toBe('d');
+  });
+
+  it('stops on a parent cycle', () => {
+    const nodes = { a: node('a', 'b', true), b: node('b', 'a', true) };
+    expect(getPreferredLeaf('a', nodes)).toBe('b');
+  });
+});
+
+describe('getConversationHistory', () => {
+  const turn = (id: string, author: Node['author'], text: string, parentId?: string, fields: Partial<Node> = {}): Node =>
+    ({ id, x: 0, y: 0, w: 240, h: 60, text, author, parentId, ...fields });
+  const withCheckpoint = (status?: GenerationStatus) => ({
+    a: turn('a', 'user', 'hi'),
+    b: turn('b', 'llm', 'hello', 'a'),
+    c: turn('c', 'llm', 'summary', 'b', { checkpoint: true, status }),
+    d: turn('d', 'user', 'go on', 'c'),
+  });
+
+  it('cuts the history at a finished checkpoint', () => {
+    for (const status of [undefined, { state: 'complete' } as const]) {
+      expect(getConversationHistory('d', withCheckpoint(status)).map(m => m.role)).toEqual(['assistant', 'user']);
+    }
+  });
+
+  it('leaves out responses without text, unless they made tool calls', () => {
+    const call = { id: 'call_0', name: 'calculator', arguments: '{}' };
+    const nodes = {
+      a: turn('a', 'user', 'hi'),
+      b: turn('b', 'llm', '', 'a', { status: { state: 'halted' } }),
+      c: turn('c', 'user', 'again', 'b'),
+      d: turn('d', 'llm', '', 'c', { status: { state: 'complete' } }),
+      e: turn('e', 'tool', '4', 'd', { toolCall: call, status: { state: 'complete' } }),
+    };
+    expect(getConversationHistory('e', nodes)).toEqual([
+      { role: 'user', content: 'hi' },
+      { role: 'user', content: 'again' },
+      { role: 'assistant', content: '', tool_calls: [call] },
+      { role: 'tool', content: '4', tool_call_id: 'call_0' },
+    ]);
+  });
+
+  it('leaves out halted and failed checkpoints', () => {
+    for (const status of [{ state: 'halted' } as const, { state: 'error', message: 'x' } as const]) {
+      expect(getConversationHistory('d', withCheckpoint(status))).toEqual([
+        { role: 'user', content: 'hi' },
+        { role: 'assistant', content: 'hello' },
+        { role: 'user', content: 'go on' },
+      ]);
+    }
+  });
+});
@@ -0,0 +1,239 @@
+import type { GenerationStats } from './completionClient';
+import type { ProviderRef } from './providers';
+import type { SamplingParams } from './sampling';
+
+export type NodeId = string;
+
+export type Node = {
+  id: NodeId;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  text: string;
+  author: 'user' | 'llm' | 'system' | 'tool';
+  parentId?: NodeId;
+  createdAt?: number; // ms since the epoch; missing on nodes from older versions
+  attachments?: Attachment[]; // images sent along with a `user` node's text
+  checkpoint?: boolean; // a `system` node summarizing everything above it
+  toolCall?: ToolCall; // on `tool` nodes: the call the parent response made; `text` holds its result
+  mergeParentIds?: NodeId[]; // further parents of a merge node; history follows parentId first, then these in order
+  status?: GenerationStatus; // `llm` and `tool` nodes; kept out of `text` so it never reaches a prompt
+  preferred?: boolean; // the chosen one among sibling responses
+  comparisonId?: string; // shared by the responses of one model comparison
+  durationMs?: number; // wall-clock time of a finished generation
+  stats?: GenerationStats;
+  provider?: ProviderRef; // which endpoint and model generated an `llm` node
+  samplingOverrides?: SamplingParams; // set on user nodes, inherited by their subtree
+  samplingUsed?: Record<string, unknown>; // exact request parameters of an `llm` node
+};
+
+export type GenerationStatus =
+  | { state: 'queued' }
+  | { state: 'streaming'; attempt?: number; lastError?: string } // attempt > 1 while retrying
+  | { state: 'complete' }
+  | { state: 'halted'; interrupted?: boolean } // interrupted: cut off by a reload or workspace switch
+  | { state: 'error'; message: string; httpStatus?: number };
+
+export type Edge = { from: NodeId; to: NodeId; fromPoint?: { x: number; y: number } };
+
+export type Scene = {
+  nodes: Record<NodeId, Node>;
+  edges: Edge[];
+};
+
+export type Viewport = { x: number; y: number; scale: number };
+
+export type Attachment = { id: string; name: string; mimeType: string; dataUrl: string };
+
+export type ToolCall = { id: string; name: string; arguments: string }; // arguments as a JSON string
+
+// OpenAI-style multi-part content, used for messages with images.
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ContentPart[];
+  tool_calls?: ToolCall[]; // on assistant messages
+  tool_call_id?: string; // on tool results
+};
+
+export const getMessageText = (message: ChatMessage) =>
+  typeof message.content === 'string'
+    ? message.content
+    : message.content.flatMap(part => (part.type === 'text' ? [part.text] : [])).join('\n\n');
+
+export const getMessageImages = (message: ChatMessage) =>
+  typeof message.content === 'string'
+    ? []
+    : message.content.flatMap(part => (part.type === 'image_url' ? [part.image_url.url] : []));
+
+export const uid = () => Math.random().toString(36).slice(2, 9);
+
+// LLM responses and tool results are read-only; user and system nodes can be edited in place.
+export const isEditable = (node: Node | undefined) => !!node && (node.author === 'user' || node.author === 'system');
+
+// A user node is worth sending once it has text or an image.
+export const hasPrompt = (node: Node | undefined) =>
+  node?.author === 'user' && (node.text.trim() !== '' || (node.attachments?.length ?? 0) > 0);
+
+// Older versions stored these in `text` instead of a status.
+export const LOADING_PLACEHOLDER = '___LOADING___';
+const LEGACY_HALTED = 'Halted.';
+const LEGACY_HALTED_SUFFIX = ' [Halted]';
+const LEGACY_ERROR = 'Error fetching response.';
+
+export const upgradeLegacyNode = (node: Node & { interrupted?: unknown }): Node => {
+  const { interrupted, ...rest } = node;
+  if (node.author !== 'llm' || node.status) return rest;
+  if (node.text === LOADING_PLACEHOLDER || interrupted === true) {
+    return { ...rest, text: node.text === LOADING_PLACEHOLDER ? '' : node.text, status: { state: 'halted', interrupted: true } };
+  }
+  if (node.text === LEGACY_HALTED) return { ...rest, text: '', status: { state: 'halted' } };
+  if (node.text.endsWith(LEGACY_HALTED_SUFFIX)) {
+    return { ...rest, text: node.text.slice(0, -LEGACY_HALTED_SUFFIX.length), status: { state: 'halted' } };
+  }
+  if (node.text === LEGACY_ERROR) return { ...rest, text: '', status: { state: 'error', message: 'Unknown error' } };
+  return rest;
+};
+
+export const upgradeLegacyScene = (scene: Scene): Scene => ({
+  ...scene,
+  nodes: Object.fromEntries(Object.values(scene.nodes).map(node => [node.id, upgradeLegacyNode(node)])),
+});
+
+export const createInitialScene = (): Scene => {
+  const rootId = uid();
+  const nodes: Record<NodeId, Node> = {
+    [rootId]: { id: rootId, x: 100, y: 100, w: 240, h: 60, text: '', author: 'user', createdAt: Date.now() },
+  };
+  const edges: Edge[] = [];
+  return { nodes, edges };
+};
+
+const ROLES: Record<Node['author'], ChatMessage['role']> = {
+  user: 'user',
+  llm: 'assistant',
+  system: 'system',
+  tool: 'tool',
+};
+
+export const getParentIds = (node: Node): NodeId[] =>
+  [...(node.parentId ? [node.parentId] : []), ...(node.mergeParentIds ?? [])];
+
+// Every ancestor of a node, root first, ending with the node itself. A merge
+// node's parents are walked in order and a prefix shared with an earlier
+// parent's path is only listed once. Each node is visited once, so even a
+// corrupted graph with a cycle can't loop.
+export const getPathIds = (nodeId: NodeId, nodes: Record<NodeId, Node>): NodeId[] => {
+  const path: NodeId[] = [];
+  const seen = new Set<NodeId>();
+  const visit = (id: NodeId) => {
+    const node = nodes[id];
+    if (!node || seen.has(id)) return;
+    seen.add(id);
+    getParentIds(node).forEach(visit);
+    path.push(id);
+  };
+  visit(nodeId);
+  return path;
+};
+
+// Whether linking `childId` under `parentId` would close a loop.
+export const wouldCreateCycle = (childId: NodeId, parentId: NodeId, nodes: Record<NodeId, Node>) =>
+  getPathIds(parentId, nodes).includes(childId);
+
+const CHECKPOINT_PREFIX = 'Summary of the conversation so far:\n\n';
+
+// A checkpoint whose summary finished. Ones without a status are from older
+// files or were edited by hand.
+export const isCheckpointReady = (node: Node) =>
+  !!node.checkpoint && (!node.status || node.status.state === 'complete');
+
+// The newest finished checkpoint on the path stands in for the conversation
+// above it; system prompts above it still apply. Unfinished checkpoints are
+// left out. `fullHistory` ignores checkpoints.
+const applyCheckpoints = (pathIds: NodeId[], nodes: Record<NodeId, Node>, fullHistory: boolean) => {
+  if (fullHistory) return pathIds.filter(id => !nodes[id].checkpoint);
+  const last = pathIds.findLastIndex(id => isCheckpointReady(nodes[id]));
+  const kept = last === -1 ? pathIds : [
+    ...pathIds.slice(0, last).filter(id => nodes[id].author === 'system' && !nodes[id].checkpoint),
+    ...pathIds.slice(last),
+  ];
+  return kept.filter(id => !nodes[id].checkpoint || isCheckpointReady(nodes[id]));
+};
+
+export const hasCheckpointAbove = (nodeId: NodeId, nodes: Record<NodeId, Node>) =>
+  getPathIds(nodeId, nodes).some(id => isCheckpointReady(nodes[id]));
+
+// `systemPrompt` is the workspace default, used unless the path starts with
+// its own system node.
+export const getConversationHistory = (
+  leafNodeId: NodeId,
+  nodes: Record<NodeId, Node>,
+  systemPrompt = '',
+  { fullHistory = false }: { fullHistory?: boolean } = {},
+): ChatMessage[] => {
+  const pathIds = applyCheckpoints(getPathIds(leafNodeId, nodes), nodes, fullHistory);
+  const history: ChatMessage[] = [];
+  pathIds.forEach((id, i) => {
+    const node = nodes[id];
+    // A response halted or failed before its first token says nothing, and
+    // many servers reject an empty assistant turn. One that only made tool
+    // calls stays, since the calls are added to it below.
+    if (node.author === 'llm' && node.text.trim() === '' && !node.attachments?.length && !nodes[pathIds[i + 1]]?.toolCall) return;
+    // A tool node adds its call to the response that made it, then its result.
+    if (node.toolCall) {
+      const caller = history.findLast(m => m.role === 'assistant');
+      if (caller) caller.tool_calls = [...(caller.tool_calls ?? []), node.toolCall];
+      history.push({ role: 'tool', content: node.text, tool_call_id: node.toolCall.id });
+      return;
+    }
+    if (node.attachments?.length) {
+      history.push({
+        role: ROLES[node.author],
+        content: [
+          ...(node.text.trim() !== '' ? [{ type: 'text' as const, text: node.text }] : []),
+          ...node.attachments.map(a => ({ type: 'image_url' as const, image_url: { url: a.dataUrl } })),
+        ],
+      });
+      return;
+    }
+    history.push({
+      role: ROLES[node.author],
+      content: node.checkpoint ? CHECKPOINT_PREFIX + node.text : node.text,
+    });
+  });
+  const first = nodes[pathIds[0]];
+  if (systemPrompt.trim() !== '' && (first?.author !== 'system' || first.checkpoint)) {
+    history.unshift({ role: 'system', content: systemPrompt });
+  }
+  return history;
+};
+
+// Follows preferred responses below a node, so a path ending at a prompt picks
+// up the answer that was chosen for it. Stops at a node it has already been
+// through, so a corrupted graph with a cycle can't loop.
+export const getPreferredLeaf = (nodeId: NodeId, nodes: Record<NodeId, Node>): NodeId => {
+  const seen = new Set<NodeId>([nodeId]);
+  let leafId = nodeId;
+  for (;;) {
+    const next = Object.values(nodes).find(n => n.parentId === leafId && n.preferred);
+    if (!next || seen.has(next.id)) return leafId;
+    seen.add(next.id);
+    leafId = next.id;
+  }
+};
+
+// Streaming and queued nodes can't survive a reload, so store them as interrupted.
+export const toPersistedScene = (scene: Scene, streamingIds: NodeId[]): Scene => {
+  let nodes = scene.nodes;
+  Object.values(scene.nodes).forEach(node => {
+    if (node.status?.state !== 'streaming' && node.status?.state !== 'queued' && !streamingIds.includes(node.id)) return;
+    if (nodes === scene.nodes) nodes = { ...scene.nodes };
+    nodes[node.id] = { ...node, status: { state: 'halted', interrupted: true } };
+  });
+  return nodes === scene.nodes ? scene : { ...scene, nodes };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseSceneFile, SCENE_FILE_VERSION } from './sceneFile';
+
+const file = (version: number, nodes: unknown[], edges: unknown[] = []) =>
+  JSON.stringify({ format: 'graph-bop/scene', version, exportedAt: '', viewport: { x: 0, y: 0, scale: 1 }, nodes, edges });
+
+const node = (id: string, author: string, fields = {}) => ({ id, x: 0, y: 0, w: 240, h: 60, text: '', author, ...fields });
+
+describe('parseSceneFile', () => {
+  it('moves a version 1 response state out of its text', () => {
+    const { scene } = parseSceneFile(file(1, [
+      node('a', 'user', { text: 'hi' }),
+      node('b', 'llm', { text: 'Partial answer [Halted]', parentId: 'a' }),
+      node('c', 'llm', { text: 'Error fetching response.', parentId: 'a' }),
+    ]));
+    expect(scene.nodes.b).toMatchObject({ text: 'Partial answer', status: { state: 'halted' } });
+    expect(scene.nodes.c).toMatchObject({ text: '', status: { state: 'error' } });
+  });
+
+  it('rejects files from a newer version', () => {
+    expect(() => parseSceneFile(file(SCENE_FILE_VERSION + 1, []))).toThrow(/newer/);
+  });
+
+  it('drops the edge of a merge parent removed by repair', () => {
+    const { scene, issues } = parseSceneFile(file(SCENE_FILE_VERSION, [
+      node('a', 'user'),
+      node('b', 'llm', { parentId: 'a' }),
+      node('m', 'user', { parentId: 'b', mergeParentIds: ['m2'] }),
+      node('m2', 'user', { parentId: 'm' }),
+    ], [{ from: 'a', to: 'b' }, { from: 'b', to: 'm' }, { from: 'm', to: 'm2' }, { from: 'm2', to: 'm' }]));
+    expect(scene.nodes.m.mergeParentIds).toBeUndefined();
+    expect(scene.edges).toEqual([{ from: 'a', to: 'b' }, { from: 'b', to: 'm' }, { from: 'm', to: 'm2' }]);
+    expect(issues).toContain('Broke merge cycle between m2 and m');
+  });
+});
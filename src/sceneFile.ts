@@ -0,0 +1,321 @@
+import { uid, upgradeLegacyNode, wouldCreateCycle } from './scene';
+import type { Attachment, Edge, GenerationStatus, Node, NodeId, Scene, ToolCall, Viewport } from './scene';
+import type { GenerationStats } from './completionClient';
+import type { ProviderRef } from './providers';
+import type { SamplingParams } from './sampling';
+import type { WorkspaceSettings } from './storage';
+import type { WorkspaceNote } from './tools';
+
+export const SCENE_FILE_FORMAT = 'graph-bop/scene';
+export const SCENE_FILE_VERSION = 2;
+
+export type SceneFile = {
+  format: typeof SCENE_FILE_FORMAT;
+  version: typeof SCENE_FILE_VERSION;
+  name?: string;
+  exportedAt: string;
+  systemPrompt?: string; // workspace default system prompt
+  tools?: string[];
+  notes?: WorkspaceNote[];
+  viewport: Viewport;
+  nodes: Node[];
+  edges: Edge[];
+};
+
+export type ImportedScene = {
+  name?: string;
+  settings: WorkspaceSettings;
+  scene: Scene;
+  vp: Viewport;
+  issues: string[]; // problems that were repaired while importing
+};
+
+type RawFile = Record<string, unknown>;
+
+// Each entry upgrades a file from `version` to `version + 1`.
+const migrations: Record<number, (file: RawFile) => RawFile> = {
+  // Version 0 is a bare `JSON.stringify(scene)` dump with nodes keyed by id.
+  0: file => ({
+    format: SCENE_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date(0).toISOString(),
+    viewport: file.viewport ?? file.vp,
+    nodes: isRecord(file.nodes) ? Object.values(file.nodes) : [],
+    edges: file.edges,
+  }),
+  // Version 2 keeps a response's generation state in `status` and adds merge
+  // parents, tool nodes, attachments, sampling settings and creation times.
+  // Version 1 files can still hold the state in an `llm` node's text.
+  1: file => ({
+    ...file,
+    version: 2,
+    nodes: Array.isArray(file.nodes)
+      ? file.nodes.map(raw => (isRecord(raw) && typeof raw.text === 'string' ? upgradeLegacyNode(raw as Node & { interrupted?: unknown }) : raw))
+      : file.nodes,
+  }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown): value is Record<string, unknown> & { x: number; y: number } =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+// Expects a scene already passed through `toPersistedScene`.
+export const serializeScene = (scene: Scene, vp: Viewport, name?: string, { systemPrompt, tools, notes }: WorkspaceSettings = {}): SceneFile => ({
+  format: SCENE_FILE_FORMAT,
+  version: SCENE_FILE_VERSION,
+  name,
+  exportedAt: new Date().toISOString(),
+  systemPrompt: systemPrompt || undefined,
+  tools: tools?.length ? tools : undefined,
+  notes: notes?.length ? notes : undefined,
+  viewport: vp,
+  nodes: Object.values(scene.nodes),
+  edges: scene.edges,
+});
+
+const migrate = (file: RawFile): RawFile => {
+  let version = file.format === undefined && file.version === undefined ? 0 : file.version;
+  if (!isFiniteNumber(version)) throw new Error('Scene file has no valid version');
+  if (version > SCENE_FILE_VERSION) {
+    throw new Error(`Scene file version ${version} is newer than this app supports (${SCENE_FILE_VERSION})`);
+  }
+  let current = file;
+  while (version < SCENE_FILE_VERSION) {
+    const migration = migrations[version];
+    if (!migration) throw new Error(`No migration from scene file version ${version}`);
+    current = migration(current);
+    version += 1;
+  }
+  return current;
+};
+
+const readProviderRef = (raw: unknown): ProviderRef | undefined =>
+  isRecord(raw) && typeof raw.id === 'string' && typeof raw.name === 'string'
+    ? { id: raw.id, name: raw.name, model: typeof raw.model === 'string' ? raw.model : '' }
+    : undefined;
+
+const readParams = (raw: unknown): Record<string, unknown> | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const entries = Object.entries(raw).filter(([, value]) => ['number', 'string', 'boolean'].includes(typeof value));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const readStats = (raw: unknown): GenerationStats | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const stats: GenerationStats = {};
+  if (typeof raw.finishReason === 'string') stats.finishReason = raw.finishReason;
+  (['promptTokens', 'completionTokens', 'tokensPerSecond', 'timeToFirstTokenMs'] as const).forEach(key => {
+    const value = raw[key];
+    if (isFiniteNumber(value)) stats[key] = value;
+  });
+  return Object.keys(stats).length > 0 ? stats : undefined;
+};
+
+const readToolCall = (raw: unknown): ToolCall | undefined =>
+  isRecord(raw) && typeof raw.id === 'string' && typeof raw.name === 'string'
+    ? { id: raw.id, name: raw.name, arguments: typeof raw.arguments === 'string' ? raw.arguments : '' }
+    : undefined;
+
+const readAttachments = (raw: unknown): Attachment[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const attachments = raw.filter(isRecord).flatMap(a =>
+    typeof a.dataUrl === 'string' && a.dataUrl.startsWith('data:image/')
+      ? [{
+        id: typeof a.id === 'string' ? a.id : uid(),
+        name: typeof a.name === 'string' ? a.name : 'image',
+        mimeType: typeof a.mimeType === 'string' ? a.mimeType : a.dataUrl.slice(5, a.dataUrl.indexOf(';')),
+        dataUrl: a.dataUrl,
+      }]
+      : [],
+  );
+  return attachments.length > 0 ? attachments : undefined;
+};
+
+const readNotes = (raw: unknown): WorkspaceNote[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const notes = raw.filter(isRecord).flatMap(note =>
+    typeof note.name === 'string' ? [{ name: note.name, text: typeof note.text === 'string' ? note.text : '' }] : [],
+  );
+  return notes.length > 0 ? notes : undefined;
+};
+
+// A file can't carry a live stream, so one saved mid-generation reads as interrupted.
+const readStatus = (raw: unknown): GenerationStatus | undefined => {
+  if (!isRecord(raw)) return undefined;
+  switch (raw.state) {
+    case 'complete':
+      return { state: 'complete' };
+    case 'queued':
+    case 'streaming':
+      return { state: 'halted', interrupted: true };
+    case 'halted':
+      return { state: 'halted', interrupted: raw.interrupted === true || undefined };
+    case 'error':
+      return {
+        state: 'error',
+        message: typeof raw.message === 'string' ? raw.message : 'Unknown error',
+        httpStatus: isFiniteNumber(raw.httpStatus) ? raw.httpStatus : undefined,
+      };
+    default:
+      return undefined;
+  }
+};
+
+const readNode = (raw: unknown, index: number, issues: string[]): Node | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || raw.id === '') {
+    issues.push(`Dropped node #${index}: missing id`);
+    return null;
+  }
+  if (raw.author !== 'user' && raw.author !== 'llm' && raw.author !== 'system' && raw.author !== 'tool') {
+    issues.push(`Dropped node ${raw.id}: unknown author "${String(raw.author)}"`);
+    return null;
+  }
+  return {
+    id: raw.id,
+    x: isFiniteNumber(raw.x) ? raw.x : 0,
+    y: isFiniteNumber(raw.y) ? raw.y : 0,
+    w: isFiniteNumber(raw.w) ? raw.w : 240,
+    h: isFiniteNumber(raw.h) ? raw.h : 60,
+    text: typeof raw.text === 'string' ? raw.text : '',
+    author: raw.author,
+    parentId: typeof raw.parentId === 'string' ? raw.parentId : undefined,
+    createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : undefined,
+    attachments: raw.author === 'user' ? readAttachments(raw.attachments) : undefined,
+    checkpoint: raw.checkpoint === true || undefined,
+    toolCall: raw.author === 'tool' ? readToolCall(raw.toolCall) : undefined,
+    mergeParentIds: Array.isArray(raw.mergeParentIds) && raw.mergeParentIds.length > 0
+      ? raw.mergeParentIds.filter((id): id is string => typeof id === 'string')
+      : undefined,
+    status: readStatus(raw.status),
+    preferred: raw.preferred === true || undefined,
+    comparisonId: typeof raw.comparisonId === 'string' ? raw.comparisonId : undefined,
+    durationMs: isFiniteNumber(raw.durationMs) ? raw.durationMs : undefined,
+    stats: readStats(raw.stats),
+    provider: readProviderRef(raw.provider),
+    samplingOverrides: readParams(raw.samplingOverrides) as SamplingParams | undefined,
+    samplingUsed: readParams(raw.samplingUsed),
+  };
+};
+
+const readEdge = (raw: unknown, index: number, issues: string[]): Edge | null => {
+  if (!isRecord(raw) || typeof raw.from !== 'string' || typeof raw.to !== 'string') {
+    issues.push(`Dropped edge #${index}: missing endpoints`);
+    return null;
+  }
+  const edge: Edge = { from: raw.from, to: raw.to };
+  if (isPoint(raw.fromPoint)) edge.fromPoint = { x: raw.fromPoint.x, y: raw.fromPoint.y };
+  return edge;
+};
+
+export const parseSceneFile = (json: string): ImportedScene => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Scene file is not valid JSON');
+  }
+  if (!isRecord(data)) throw new Error('Scene file must contain a JSON object');
+  if (data.format !== undefined && data.format !== SCENE_FILE_FORMAT) {
+    throw new Error(`Unknown scene file format "${String(data.format)}"`);
+  }
+
+  const file = migrate(data);
+  const issues: string[] = [];
+
+  const nodes: Record<NodeId, Node> = {};
+  (Array.isArray(file.nodes) ? file.nodes : []).forEach((raw, index) => {
+    const node = readNode(raw, index, issues);
+    if (!node) return;
+    if (nodes[node.id]) {
+      const id = uid();
+      issues.push(`Duplicate node id ${node.id} renamed to ${id}`);
+      nodes[id] = { ...node, id };
+      return;
+    }
+    nodes[node.id] = node;
+  });
+
+  Object.values(nodes).forEach(node => {
+    if (node.parentId && !nodes[node.parentId]) {
+      issues.push(`Node ${node.id} referenced missing parent ${node.parentId}`);
+      nodes[node.id] = { ...node, parentId: undefined };
+    }
+  });
+
+  // Links broken while repairing; their edges go as well.
+  const droppedLinks = new Set<string>();
+
+  // A parent cycle would make history walks loop forever.
+  Object.values(nodes).forEach(node => {
+    const seen = new Set<NodeId>([node.id]);
+    let current = nodes[node.id];
+    while (current.parentId) {
+      if (seen.has(current.parentId)) {
+        issues.push(`Broke parent cycle at node ${current.id}`);
+        droppedLinks.add(`${current.parentId}-${current.id}`);
+        nodes[current.id] = { ...current, parentId: undefined };
+        break;
+      }
+      seen.add(current.parentId);
+      current = nodes[current.parentId];
+    }
+  });
+
+  Object.values(nodes).forEach(node => {
+    if (!node.mergeParentIds) return;
+    const kept: NodeId[] = [];
+    node.mergeParentIds.forEach(parentId => {
+      if (!nodes[parentId]) {
+        issues.push(`Node ${node.id} referenced missing merge parent ${parentId}`);
+      } else if (parentId === node.parentId || kept.includes(parentId)) {
+        issues.push(`Dropped repeated merge parent ${parentId} of node ${node.id}`);
+      } else if (wouldCreateCycle(node.id, parentId, nodes)) {
+        issues.push(`Broke merge cycle between ${parentId} and ${node.id}`);
+        droppedLinks.add(`${parentId}-${node.id}`);
+      } else {
+        kept.push(parentId);
+      }
+    });
+    nodes[node.id] = { ...nodes[node.id], mergeParentIds: kept.length > 0 ? kept : undefined };
+  });
+
+  const edges: Edge[] = [];
+  const edgeKeys = new Set<string>();
+  (Array.isArray(file.edges) ? file.edges : []).forEach((raw, index) => {
+    const edge = readEdge(raw, index, issues);
+    if (!edge) return;
+    if (!nodes[edge.from] || !nodes[edge.to]) {
+      issues.push(`Dropped dangling edge ${edge.from} → ${edge.to}`);
+      return;
+    }
+    const key = `${edge.from}-${edge.to}`;
+    if (droppedLinks.has(key)) return;
+    if (edgeKeys.has(key)) {
+      issues.push(`Dropped duplicate edge ${edge.from} → ${edge.to}`);
+      return;
+    }
+    edgeKeys.add(key);
+    edges.push(edge);
+  });
+
+  const rawViewport = isRecord(file.viewport) ? file.viewport : {};
+  const viewport: Viewport = isPoint(rawViewport) && isFiniteNumber(rawViewport.scale) && rawViewport.scale > 0
+    ? { x: rawViewport.x, y: rawViewport.y, scale: rawViewport.scale }
+    : { x: 0, y: 0, scale: 1 };
+
+  return {
+    name: typeof file.name === 'string' ? file.name : undefined,
+    settings: {
+      systemPrompt: typeof file.systemPrompt === 'string' ? file.systemPrompt : undefined,
+      tools: Array.isArray(file.tools) ? file.tools.filter((name): name is string => typeof name === 'string') : undefined,
+      notes: readNotes(file.notes),
+    },
+    scene: { nodes, edges },
+    vp: viewport,
+    issues,
+  };
+};
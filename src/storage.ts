@@ -0,0 +1,80 @@
+import type { Scene, Viewport } from './scene';
+import type { WorkspaceNote } from './tools';
+
+export type WorkspaceId = string;
+
+export type WorkspaceMeta = {
+  id: WorkspaceId;
+  name: string;
+  updatedAt: number;
+};
+
+export type WorkspaceSettings = {
+  systemPrompt?: string; // default for conversations without their own system node
+  tools?: string[]; // names of the tools offered to the model
+  notes?: WorkspaceNote[]; // readable by the `read_note` tool
+};
+
+export type Workspace = WorkspaceMeta & WorkspaceSettings & {
+  scene: Scene;
+  vp: Viewport;
+};
+
+const DB_NAME = 'graph-bop';
+const DB_VERSION = 1;
+const WORKSPACE_STORE = 'workspaces';
+const LAST_WORKSPACE_KEY = 'graph-bop:last-workspace';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(WORKSPACE_STORE)) {
+          req.result.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(WORKSPACE_STORE, mode);
+    const req = run(tx.objectStore(WORKSPACE_STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const listWorkspaces = async (): Promise<WorkspaceMeta[]> => {
+  const all = await withStore<Workspace[]>('readonly', store => store.getAll());
+  return all
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadWorkspace = (id: WorkspaceId) =>
+  withStore<Workspace | undefined>('readonly', store => store.get(id));
+
+export const saveWorkspace = async (workspace: Workspace) => {
+  await withStore('readwrite', store => store.put(workspace));
+};
+
+export const deleteWorkspace = async (id: WorkspaceId) => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const getLastWorkspaceId = (): WorkspaceId | null => localStorage.getItem(LAST_WORKSPACE_KEY);
+
+export const setLastWorkspaceId = (id: WorkspaceId) => localStorage.setItem(LAST_WORKSPACE_KEY, id);
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createNdjsonParser, createSseParser, readNdjson, readSseEvents } from './streamParser';
+
+// Feeds each chunk separately and collects everything the parser emits.
+const feed = <T>(parser: { push: (text: string) => T[]; end: () => T[] }, chunks: string[]) => [
+  ...chunks.flatMap(chunk => parser.push(chunk)),
+  ...parser.end(),
+];
+
+const streamOf = (chunks: Uint8Array[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe('createSseParser', () => {
+  it('joins a CRLF split across chunks', () => {
+    const events = feed(createSseParser(), ['data: one\r', '\n\r', '\ndata: two\r\n\r\n']);
+    expect(events.map(e => e.data)).toEqual(['one', 'two']);
+  });
+
+  it('skips comment lines', () => {
+    const events = feed(createSseParser(), [': keep-alive\n\n', 'data: hi\n', ':ping\n\n']);
+    expect(events).toEqual([{ event: 'message', data: 'hi', id: undefined }]);
+  });
+
+  it('reads event and id fields', () => {
+    const events = feed(createSseParser(), ['event: delta\nid: 7\ndata: a\n\n', 'data: b\n\n']);
+    expect(events).toEqual([
+      { event: 'delta', data: 'a', id: '7' },
+      { event: 'message', data: 'b', id: '7' },
+    ]);
+  });
+
+  it('joins a data payload spread over several lines', () => {
+    const events = feed(createSseParser(), ['data: {"a":\n', 'data: 1}\n', '\n']);
+    expect(events.map(e => e.data)).toEqual(['{"a":\n1}']);
+  });
+
+  it('passes [DONE] through as data', () => {
+    const events = feed(createSseParser(), ['data: {"x":1}\n\ndata: [DONE]\n\n']);
+    expect(events.map(e => e.data)).toEqual(['{"x":1}', '[DONE]']);
+  });
+
+  it('reports error events by type', () => {
+    const events = feed(createSseParser(), ['event: error\ndata: {"error":"overloaded"}\n\n']);
+    expect(events).toEqual([{ event: 'error', data: '{"error":"overloaded"}', id: undefined }]);
+  });
+
+  it('dispatches a final event without a trailing newline', () => {
+    const events = feed(createSseParser(), ['data: one\n\n', 'data: last']);
+    expect(events.map(e => e.data)).toEqual(['one', 'last']);
+  });
+});
+
+describe('createNdjsonParser', () => {
+  it('parses lines split across chunks, ending without a newline', () => {
+    const values = feed(createNdjsonParser(), ['{"a":', '1}\r', '\n\n{"b":2}\n{"c"', ':3}']);
+    expect(values).toEqual([{ a: 1 }, { b: 2 }, { c: 3 }]);
+  });
+});
+
+describe('reading byte streams', () => {
+  it('keeps a multibyte character split across SSE chunks intact', async () => {
+    const bytes = new TextEncoder().encode('data: héllo 👋\n\n');
+    const split = bytes.indexOf(0xf0) + 2; // inside the emoji's four bytes
+    const events = await collect(readSseEvents(streamOf([bytes.slice(0, 8), bytes.slice(8, split), bytes.slice(split)])));
+    expect(events.map(e => e.data)).toEqual(['héllo 👋']);
+  });
+
+  it('keeps a multibyte character split across NDJSON chunks intact', async () => {
+    const bytes = new TextEncoder().encode('{"text":"ça"}\n{"text":"€"}');
+    const cedilla = bytes.indexOf(0xc3) + 1;
+    const euro = bytes.indexOf(0xe2) + 1;
+    const values = await collect(readNdjson(streamOf([bytes.slice(0, cedilla), bytes.slice(cedilla, euro), bytes.slice(euro)])));
+    expect(values).toEqual([{ text: 'ça' }, { text: '€' }]);
+  });
+});
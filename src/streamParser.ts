@@ -0,0 +1,126 @@
+// Incremental parsers for streamed completion responses. Network reads can end
+// anywhere, including inside a line or a multibyte UTF-8 character, so input
+// is buffered until a full line (and, for SSE, a full event) is available.
+
+export type SseEvent = {
+  event: string; // "message" unless the server sent an `event:` field
+  data: string;
+  id?: string;
+};
+
+// Splits text into lines on CRLF, LF or CR, holding back the unterminated tail.
+const createLineSplitter = () => {
+  let buffer = '';
+  let skipLeadingLF = false; // a CR ended the last chunk; a following LF belongs to it
+
+  return {
+    push(text: string): string[] {
+      if (skipLeadingLF && text.startsWith('\n')) text = text.slice(1);
+      skipLeadingLF = false;
+      buffer += text;
+      const lines: string[] = [];
+      let start = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        const ch = buffer[i];
+        if (ch !== '\n' && ch !== '\r') continue;
+        lines.push(buffer.slice(start, i));
+        if (ch === '\r') {
+          if (i + 1 === buffer.length) skipLeadingLF = true;
+          else if (buffer[i + 1] === '\n') i++;
+        }
+        start = i + 1;
+      }
+      buffer = buffer.slice(start);
+      return lines;
+    },
+    end(): string[] {
+      const rest = buffer;
+      buffer = '';
+      skipLeadingLF = false;
+      return rest === '' ? [] : [rest];
+    },
+  };
+};
+
+// Server-sent events as specified by the HTML living standard: `data:` lines
+// accumulate until a blank line dispatches the event, `:` lines are comments
+// (keep-alives), and `event:` / `id:` set the event's type and last id.
+export const createSseParser = () => {
+  const lines = createLineSplitter();
+  let data: string[] = [];
+  let eventType = '';
+  let lastId: string | undefined;
+
+  const processLine = (line: string, events: SseEvent[]) => {
+    if (line === '') {
+      if (data.length > 0) {
+        events.push({ event: eventType || 'message', data: data.join('\n'), id: lastId });
+      }
+      data = [];
+      eventType = '';
+      return;
+    }
+    if (line.startsWith(':')) return;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    if (field === 'data') data.push(value);
+    else if (field === 'event') eventType = value;
+    else if (field === 'id' && !value.includes('\0')) lastId = value;
+  };
+
+  return {
+    push(text: string): SseEvent[] {
+      const events: SseEvent[] = [];
+      lines.push(text).forEach(line => processLine(line, events));
+      return events;
+    },
+    // Some servers close the stream without the final blank line.
+    end(): SseEvent[] {
+      const events: SseEvent[] = [];
+      lines.end().forEach(line => processLine(line, events));
+      processLine('', events);
+      return events;
+    },
+  };
+};
+
+// Newline-delimited JSON, one value per non-blank line. `parseLine` can swap in
+// a parser that reports malformed lines its own way.
+export const createNdjsonParser = (parseLine: (line: string) => unknown = JSON.parse) => {
+  const lines = createLineSplitter();
+  const parse = (all: string[]) => all.filter(line => line.trim() !== '').map(parseLine);
+  return {
+    push: (text: string) => parse(lines.push(text)),
+    end: () => parse(lines.end()),
+  };
+};
+
+type ChunkParser<T> = { push: (text: string) => T[]; end: () => T[] };
+
+async function* readParsed<T>(body: ReadableStream<Uint8Array>, parser: ChunkParser<T>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let finished = false;
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        finished = true;
+        yield* parser.push(decoder.decode());
+        yield* parser.end();
+        return;
+      }
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    // Stopping early (e.g. after [DONE]) shouldn't leave the connection open.
+    if (!finished) reader.cancel().catch(() => {});
+  }
+}
+
+export const readSseEvents = (body: ReadableStream<Uint8Array>) => readParsed(body, createSseParser());
+
+export const readNdjson = (body: ReadableStream<Uint8Array>, parseLine?: (line: string) => unknown) =>
+  readParsed(body, createNdjsonParser(parseLine));
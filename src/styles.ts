@@ -0,0 +1,24 @@
+import type React from 'react';
+import type { Node } from './scene';
+
+export const toolbarButtonStyle: React.CSSProperties = { background: '#111827', color: '#fff', border: 'none', borderRadius: 10, padding: '8px 12px', font: '12px Inter, system-ui, sans-serif', cursor: 'pointer' };
+
+export const menuItemStyle: React.CSSProperties = { display: 'block', width: '100%', background: 'none', border: 'none', borderRadius: 0, color: 'black', padding: '4px 20px', font: '14px system-ui, sans-serif', textAlign: 'left', cursor: 'pointer' };
+
+export const smallButtonStyle: React.CSSProperties = { background: 'none', border: 'none', borderRadius: 0, color: '#64748B', padding: '0 4px', font: '12px system-ui, sans-serif', cursor: 'pointer' };
+
+export const panelStyle: React.CSSProperties = { position: 'absolute', right: 12, top: 80, width: 340, maxHeight: 'calc(100vh - 100px)', overflowY: 'auto', zIndex: 4, background: 'white', color: '#0F172A', border: '1px solid #A0A0A0', borderRadius: 4, padding: 12, boxSizing: 'border-box', font: '13px system-ui, sans-serif', cursor: 'default' };
+
+export const fieldLabelStyle: React.CSSProperties = { display: 'block', marginBottom: 8, color: '#64748B', fontSize: 12 };
+
+export const fieldInputStyle: React.CSSProperties = { display: 'block', width: '100%', boxSizing: 'border-box', marginTop: 2, padding: '4px 6px', border: '1px solid #D1D5DB', borderRadius: 4, background: 'white', color: '#0F172A', font: '13px system-ui, sans-serif' };
+
+// System prompts and checkpoints are tinted so they stand out from the conversation.
+const AUTHOR_BACKGROUNDS: Record<Node['author'], string> = { user: 'white', llm: 'white', system: '#FFFBEB', tool: '#ECFDF5' };
+
+export const nodeBackground = (node: Node) => (node.checkpoint ? '#EFF6FF' : AUTHOR_BACKGROUNDS[node.author]);
+
+export const highlightOnHover = {
+  onMouseEnter: (e: React.MouseEvent<HTMLElement>) => { e.currentTarget.style.backgroundColor = '#f0f0f0'; },
+  onMouseLeave: (e: React.MouseEvent<HTMLElement>) => { e.currentTarget.style.backgroundColor = 'transparent'; },
+};
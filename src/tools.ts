@@ -0,0 +1,175 @@
+import type { ToolCall } from './scene';
+
+export type WorkspaceNote = { name: string; text: string };
+
+export type ToolContext = { notes: WorkspaceNote[] };
+
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments object
+  run: (args: Record<string, unknown>, context: ToolContext) => string | Promise<string>;
+};
+
+// Sent with a request so the model knows which tools it may call.
+export type ToolSpec = {
+  type: 'function';
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+};
+
+// A small arithmetic parser, so the calculator never has to eval model output.
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  abs: Math.abs, sqrt: Math.sqrt, cbrt: Math.cbrt, exp: Math.exp, ln: Math.log, log: Math.log10,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  floor: Math.floor, ceil: Math.ceil, round: Math.round,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z]+|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const take = (expected?: string) => {
+    const token = tokens[pos++];
+    if (expected !== undefined && token !== expected) throw new Error(`Expected "${expected}" but found ${token === undefined ? 'the end' : `"${token}"`}`);
+    return token;
+  };
+
+  const primary = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = sum();
+      take(')');
+      return value;
+    }
+    if (/^\d/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (name in CONSTANTS) return CONSTANTS[name];
+    if (name in FUNCTIONS) {
+      take('(');
+      const value = sum();
+      take(')');
+      return FUNCTIONS[name](value);
+    }
+    throw new Error(`Unknown token "${token}"`);
+  };
+  const unary = (): number => {
+    if (peek() === '-') {
+      take();
+      return -unary();
+    }
+    if (peek() === '+') {
+      take();
+      return unary();
+    }
+    return power();
+  };
+  const power = (): number => {
+    const base = primary();
+    if (peek() === '^' || peek() === '**') {
+      take();
+      return base ** unary();
+    }
+    return base;
+  };
+  const product = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = take();
+      const right = unary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') {
+      const op = take();
+      const right = product();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const value = sum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  return value;
+};
+
+const BUILT_IN_TOOLS: ToolDefinition[] = [
+  {
+    name: 'calculator',
+    description: 'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and functions such as sqrt, ln, log, sin, cos, round.',
+    parameters: {
+      type: 'object',
+      properties: { expression: { type: 'string', description: 'The expression, for example "2 * (3 + 4) ^ 2"' } },
+      required: ['expression'],
+    },
+    run: args => {
+      if (typeof args.expression !== 'string') throw new Error('"expression" must be a string');
+      return String(evaluateExpression(args.expression));
+    },
+  },
+  {
+    name: 'current_time',
+    description: 'Get the current date and time.',
+    parameters: {
+      type: 'object',
+      properties: { timezone: { type: 'string', description: 'IANA time zone such as "Europe/Paris"; defaults to the user\'s' } },
+    },
+    run: args => {
+      const now = new Date();
+      const timeZone = typeof args.timezone === 'string' && args.timezone !== '' ? args.timezone : undefined;
+      return JSON.stringify({
+        iso: now.toISOString(),
+        local: now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' }),
+      });
+    },
+  },
+  {
+    name: 'read_note',
+    description: 'Read one of the notes saved in this workspace. Call without a name to list them.',
+    parameters: {
+      type: 'object',
+      properties: { name: { type: 'string', description: 'The note\'s name' } },
+    },
+    run: (args, { notes }) => {
+      const names = notes.map(n => n.name);
+      if (typeof args.name !== 'string' || args.name === '') return JSON.stringify({ notes: names });
+      const note = notes.find(n => n.name.toLowerCase() === String(args.name).toLowerCase());
+      if (!note) throw new Error(`No note named "${args.name}". Available: ${names.join(', ') || 'none'}`);
+      return note.text;
+    },
+  },
+];
+
+const registry = new Map<string, ToolDefinition>(BUILT_IN_TOOLS.map(tool => [tool.name, tool]));
+
+export const registerTool = (tool: ToolDefinition) => {
+  registry.set(tool.name, tool);
+};
+
+export const listTools = () => [...registry.values()];
+
+export const formatToolCall = ({ name, arguments: args }: ToolCall) => `${name}(${args.trim()})`;
+
+export const toToolSpecs = (names: string[]): ToolSpec[] =>
+  names.flatMap(name => {
+    const tool = registry.get(name);
+    return tool ? [{ type: 'function' as const, function: { name: tool.name, description: tool.description, parameters: tool.parameters } }] : [];
+  });
+
+// Errors become the tool's result too, so the model can see what went wrong.
+export const runToolCall = async (call: ToolCall, context: ToolContext): Promise<{ content: string; error?: string }> => {
+  const tool = registry.get(call.name);
+  if (!tool) return { content: `Error: unknown tool "${call.name}"`, error: `Unknown tool "${call.name}"` };
+  try {
+    const args: unknown = call.arguments.trim() === '' ? {} : JSON.parse(call.arguments);
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) throw new Error('Arguments must be a JSON object');
+    return { content: await tool.run(args as Record<string, unknown>, context) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: `Error: ${message}`, error: message };
+  }
+};
@@ -0,0 +1,93 @@
+import { getConversationHistory, getMessageImages, getMessageText } from './scene';
+import type { ChatMessage, Node, NodeId, Scene } from './scene';
+import { formatToolCall } from './tools';
+
+export type TranscriptFormat = 'markdown' | 'text';
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+};
+
+const AUTHOR_LABELS: Record<Node['author'], string> = {
+  system: ROLE_LABELS.system,
+  user: ROLE_LABELS.user,
+  llm: ROLE_LABELS.assistant,
+  tool: ROLE_LABELS.tool,
+};
+
+const imageNote = (count: number) => (count > 0 ? `[${count} image${count === 1 ? '' : 's'} attached]` : '');
+
+// A response that only calls tools has no text of its own; its calls stand in.
+const messageText = (message: ChatMessage) =>
+  [
+    getMessageText(message).trim(),
+    imageNote(getMessageImages(message).length),
+    ...(message.tool_calls ?? []).map(call => `Calls \`${formatToolCall(call)}\``),
+  ].filter(Boolean).join('\n\n');
+
+const formatMessage = (message: ChatMessage, format: TranscriptFormat) =>
+  format === 'markdown'
+    ? `## ${ROLE_LABELS[message.role]}\n\n${messageText(message)}`
+    : `${ROLE_LABELS[message.role]}:\n${messageText(message)}`;
+
+export const branchToTranscript = (leafNodeId: NodeId, nodes: Record<NodeId, Node>, format: TranscriptFormat, systemPrompt?: string) => {
+  const history = getConversationHistory(leafNodeId, nodes, systemPrompt, { fullHistory: true }).filter(m => messageText(m) !== '');
+  const separator = format === 'markdown' ? '\n\n' : '\n\n---\n\n';
+  return history.map(m => formatMessage(m, format)).join(separator) + '\n';
+};
+
+const childrenOf = (nodes: Record<NodeId, Node>) => {
+  const children: Record<NodeId, Node[]> = {};
+  Object.values(nodes).forEach(node => {
+    if (!node.parentId) return;
+    (children[node.parentId] ??= []).push(node);
+  });
+  Object.values(children).forEach(list => list.sort((a, b) => Number(!!b.preferred) - Number(!!a.preferred) || a.x - b.x || a.y - b.y));
+  return children;
+};
+
+const excerpt = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > 40 ? `${line.slice(0, 40)}…` : line;
+};
+
+// Linear runs are written in order; wherever a node has several children each
+// child starts a numbered "Branch" section one heading level deeper, with the
+// preferred response first.
+export const treeToMarkdown = (scene: Scene, title = 'Conversation tree') => {
+  const children = childrenOf(scene.nodes);
+  const roots = Object.values(scene.nodes)
+    .filter(n => !n.parentId || !scene.nodes[n.parentId])
+    .sort((a, b) => a.x - b.x || a.y - b.y);
+  const out: string[] = [`# ${title}`];
+
+  const writeRun = (start: Node, depth: number, label: string) => {
+    let node: Node | undefined = start;
+    while (node) {
+      if (node.text.trim() !== '' || node.attachments?.length) {
+        const label = node.checkpoint ? 'Checkpoint summary' : node.toolCall ? `Tool \`${formatToolCall(node.toolCall)}\`` : AUTHOR_LABELS[node.author];
+        out.push(`**${label}:**\n\n${[node.text.trim(), imageNote(node.attachments?.length ?? 0)].filter(Boolean).join('\n\n')}`);
+      }
+      const next: Node[] = children[node.id] ?? [];
+      if (next.length > 1) {
+        next.forEach((child, i) => {
+          const branchLabel = `${label}${i + 1}`;
+          out.push(`${'#'.repeat(Math.min(6, depth + 1))} Branch ${branchLabel} of ${next.length}${child.preferred ? ' (preferred)' : ''} — ${excerpt(node!.text) || 'untitled'}`);
+          writeRun(child, depth + 1, `${branchLabel}.`);
+        });
+        return;
+      }
+      node = next[0];
+    }
+  };
+
+  roots.forEach((root, i) => {
+    if (roots.length > 1) out.push(`## Conversation ${i + 1}`);
+    writeRun(root, roots.length > 1 ? 2 : 1, roots.length > 1 ? `${i + 1}.` : '');
+  });
+
+  return out.join('\n\n') + '\n';
+};
@@ -0,0 +1,55 @@
+import type { Node, NodeId, Scene } from './scene';
+
+// Scenes as they were before each recorded change, and as they were before
+// each undo.
+export type UndoHistory = { past: Scene[]; future: Scene[]; lastKey?: string };
+
+const MAX_ENTRIES = 100;
+
+export const createUndoHistory = (): UndoHistory => ({ past: [], future: [] });
+
+// Changes recorded with the same `key` one after another, like keystrokes in
+// one field, share a single entry.
+export const recordChange = (history: UndoHistory, scene: Scene, key?: string): UndoHistory => {
+  if (key !== undefined && key === history.lastKey) return { ...history, future: [] };
+  return { past: [...history.past, scene].slice(-MAX_ENTRIES), future: [], lastKey: key };
+};
+
+export const isGenerating = (node: Node | undefined) =>
+  node?.status?.state === 'streaming' || node?.status?.state === 'queued';
+
+// Generations carry on across undo and redo, so a node that was generating
+// when its snapshot was taken picks up its latest output from `current`. One
+// still marked as generating without a live request is shown as halted.
+const restoreScene = (snapshot: Scene, current: Scene, liveIds: NodeId[]): Scene => {
+  const nodes: Record<NodeId, Node> = {};
+  Object.values(snapshot.nodes).forEach(node => {
+    const latest = current.nodes[node.id];
+    let restored = node;
+    if (isGenerating(node) && latest) {
+      const { text, status, durationMs, stats, provider } = latest;
+      restored = { ...node, text, status, durationMs, stats, provider };
+    }
+    if (isGenerating(restored) && !liveIds.includes(node.id)) restored = { ...restored, status: { state: 'halted' } };
+    nodes[node.id] = restored;
+  });
+  return { ...snapshot, nodes };
+};
+
+export const undoChange = (history: UndoHistory, current: Scene, liveIds: NodeId[]) => {
+  const previous = history.past.at(-1);
+  if (!previous) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    scene: restoreScene(previous, current, liveIds),
+  };
+};
+
+export const redoChange = (history: UndoHistory, current: Scene, liveIds: NodeId[]) => {
+  const next = history.future[0];
+  if (!next) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    scene: restoreScene(next, current, liveIds),
+  };
+};